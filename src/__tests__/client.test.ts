@@ -1,5 +1,31 @@
 import { GravixLayer } from "../client";
-import { GravixLayerError } from "../types/exceptions";
+import { SSEDecoder } from "../streaming";
+import { schemaResponseFormat, schemaTool } from "../schema";
+import { imagePart, textPart } from "../content";
+import { RateLimiter } from "../rate-limits";
+import { Filter } from "../filters";
+import { RedisCacheStore } from "../cache";
+import { Memory } from "../resources/memory/memory";
+import { Sandbox } from "../resources/sandbox";
+import {
+  l2Normalize,
+  truncateEmbedding,
+  vectorScore,
+} from "../embedding-utils";
+import { z } from "zod";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { getEventListeners } from "events";
+import { join } from "path";
+import {
+  GravixLayerError,
+  GravixLayerBadRequestError,
+  GravixLayerConnectionError,
+  GravixLayerNotFoundError,
+  GravixLayerRateLimitError,
+  GravixLayerTimeoutError,
+  GravixLayerValidationError,
+} from "../types/exceptions";
 
 describe("GravixLayer Client", () => {
   it("should throw error when no API key is provided", () => {
@@ -61,3 +87,1733 @@ describe("GravixLayer Client", () => {
     expect(httpsClient).toBeInstanceOf(GravixLayer);
   });
 });
+
+describe("GravixLayer transport", () => {
+  const mockResponse = (
+    status: number,
+    body: any,
+    headers: Record<string, string> = {},
+  ) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: "",
+    headers: {
+      get: (name: string): string | null => headers[name.toLowerCase()] ?? null,
+      forEach: (callback: (value: string, key: string) => void) =>
+        Object.entries(headers).forEach(([key, value]) => callback(value, key)),
+    },
+    body: null,
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+    arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
+  });
+  const okResponse = (body: any) => mockResponse(200, body);
+  const sseResponse = (pieces: string[]) => ({
+    ...okResponse(null),
+    body: {
+      async *[Symbol.asyncIterator]() {
+        for (const piece of pieces) yield Buffer.from(piece);
+      },
+    },
+  });
+
+  it("should use a custom fetch implementation", async () => {
+    const fetch = jest.fn(() =>
+      Promise.resolve(okResponse({ data: [], model: "m" })),
+    );
+    const client = new GravixLayer({
+      apiKey: "test-key",
+      baseURL: "http://localhost:8000/v1/inference",
+      fetch,
+    });
+
+    await client.embeddings.create({ model: "m", input: "hello" });
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    const [url, init] = fetch.mock.calls[0] as any[];
+    expect(url).toBe("http://localhost:8000/v1/inference/embeddings");
+    expect(init.method).toBe("POST");
+    expect(init.headers.Authorization).toBe("Bearer test-key");
+  });
+
+  it("should merge fetchOptions into every request", async () => {
+    const agent = { keepAlive: true };
+    const fetch = jest.fn(() => Promise.resolve(okResponse({ data: [] })));
+    const client = new GravixLayer({
+      apiKey: "test-key",
+      fetch,
+      fetchOptions: { agent },
+    });
+
+    await client.embeddings.create({ model: "m", input: "hello" });
+
+    const [, init] = fetch.mock.calls[0] as any[];
+    expect(init.agent).toBe(agent);
+  });
+
+  it("should give every retry attempt a fresh deadline", async () => {
+    const signals: AbortSignal[] = [];
+    const fetch = jest.fn(
+      (_url: string, init?: any) =>
+        new Promise<any>((_resolve, reject) => {
+          signals.push(init.signal);
+          init.signal.addEventListener("abort", () =>
+            reject(new Error("aborted")),
+          );
+        }),
+    );
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+
+    await expect(
+      client.embeddings.create(
+        { model: "m", input: "hello" },
+        { timeout: 10, maxRetries: 1 },
+      ),
+    ).rejects.toThrow(GravixLayerTimeoutError);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(signals[0]).not.toBe(signals[1]);
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+  });
+
+  it("should not send requests once the caller's signal is aborted", async () => {
+    const fetch = jest.fn(() => Promise.resolve(okResponse({ data: [] })));
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      client.embeddings.create(
+        { model: "m", input: "hello" },
+        { signal: controller.signal },
+      ),
+    ).rejects.toBeInstanceOf(GravixLayerConnectionError);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should send per-request headers", async () => {
+    const fetch = jest.fn(() => Promise.resolve(okResponse({ data: [] })));
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+
+    await client.embeddings.create(
+      { model: "m", input: "hello" },
+      { headers: { "X-Tenant": "acme" } },
+    );
+
+    const [, init] = fetch.mock.calls[0] as any[];
+    expect(init.headers["X-Tenant"]).toBe("acme");
+    expect(init.headers.Authorization).toBe("Bearer test-key");
+  });
+
+  it("should pass request options through memory and sandbox helpers", async () => {
+    const fetch = jest
+      .fn()
+      .mockImplementation(async (url: string) =>
+        url.endsWith("/indexes")
+          ? okResponse({ indexes: [{ id: "idx-1", name: "memories" }] })
+          : url.endsWith("/upsert")
+            ? okResponse({ ids: ["m-1"], count: 1 })
+            : okResponse({ id: "m-1", content: "hello" }),
+      );
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+    const requestOptions = { headers: { "X-Tenant": "acme" } };
+
+    const memory = new Memory(
+      client,
+      "bge",
+      "llama",
+      "memories",
+      "aws",
+      "us",
+      false,
+    );
+    await memory.add("likes tea", "u-1", {}, requestOptions);
+    const sandbox = new Sandbox({ sandbox_id: "sbx-1", status: "running" });
+    (sandbox as any)._client = client;
+    await sandbox.readFile("/notes.txt", requestOptions);
+
+    expect(fetch).toHaveBeenCalledTimes(4);
+    for (const [, init] of fetch.mock.calls) {
+      expect(init.headers["X-Tenant"]).toBe("acme");
+    }
+  });
+
+  it("should raise structured errors from API responses", async () => {
+    const fetch = jest.fn(() =>
+      Promise.resolve(
+        mockResponse(
+          404,
+          {
+            error: {
+              message: "Model not found",
+              code: "model_not_found",
+              param: "model",
+            },
+          },
+          { "x-request-id": "req_123" },
+        ),
+      ),
+    );
+    const client = new GravixLayer({
+      apiKey: "test-key",
+      baseURL: "http://localhost:8000/v1/inference",
+      fetch,
+    });
+
+    const error = await client.embeddings
+      .create({ model: "missing", input: "hello" })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(GravixLayerNotFoundError);
+    expect(error).toBeInstanceOf(GravixLayerBadRequestError);
+    expect(error.message).toBe("Model not found");
+    expect(error.status).toBe(404);
+    expect(error.code).toBe("model_not_found");
+    expect(error.param).toBe("model");
+    expect(error.requestId).toBe("req_123");
+    expect(error.headers["x-request-id"]).toBe("req_123");
+    expect(error.method).toBe("POST");
+    expect(error.url).toBe("http://localhost:8000/v1/inference/embeddings");
+  });
+
+  it("should reuse one idempotency key across retries", async () => {
+    const fetch = jest
+      .fn()
+      .mockResolvedValueOnce(mockResponse(503, {}))
+      .mockResolvedValueOnce(okResponse({ data: [] }));
+    const client = new GravixLayer({
+      apiKey: "test-key",
+      fetch,
+      retryPolicy: { backoff: () => 0 },
+    });
+
+    await client.embeddings.create({ model: "m", input: "hello" });
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    const keys = fetch.mock.calls.map(
+      ([, init]) => init.headers["Idempotency-Key"],
+    );
+    expect(keys[0]).toBeTruthy();
+    expect(keys[1]).toBe(keys[0]);
+  });
+
+  it("should honor Retry-After dates and the retry hook", async () => {
+    const retryAt = new Date(Date.now() + 60000).toUTCString();
+    const fetch = jest.fn(() =>
+      Promise.resolve(mockResponse(429, {}, { "retry-after": retryAt })),
+    );
+    const shouldRetry = jest.fn(({ attempt }) => attempt === 0);
+    const client = new GravixLayer({
+      apiKey: "test-key",
+      fetch,
+      retryPolicy: { maxDelay: 5, shouldRetry },
+    });
+
+    await expect(
+      client.embeddings.create({ model: "m", input: "hello" }),
+    ).rejects.toBeInstanceOf(GravixLayerRateLimitError);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(shouldRetry).toHaveBeenCalledWith(
+      expect.objectContaining({ method: "POST", status: 429, attempt: 0 }),
+    );
+  });
+
+  it("should route retry warnings through the configured logger", async () => {
+    const logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    const fetch = jest
+      .fn()
+      .mockResolvedValueOnce(mockResponse(503, {}))
+      .mockResolvedValueOnce(okResponse({ data: [] }));
+    const client = new GravixLayer({
+      apiKey: "test-key",
+      fetch,
+      logger,
+      retryPolicy: { backoff: () => 0 },
+    });
+
+    await client.embeddings.create({ model: "m", input: "hello" });
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining("Server error: 503"),
+    );
+  });
+
+  it("should drop log messages below the configured level", () => {
+    const logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    process.env.GRAVIXLAYER_LOG = "off";
+    const silent = new GravixLayer({ apiKey: "test-key", logger });
+    delete process.env.GRAVIXLAYER_LOG;
+    silent.logger.error("hidden");
+
+    const verbose = new GravixLayer({
+      apiKey: "test-key",
+      logger,
+      logLevel: "debug",
+    });
+    verbose.logger.debug("shown");
+
+    expect(logger.error).not.toHaveBeenCalled();
+    expect(logger.debug).toHaveBeenCalledWith("shown");
+  });
+
+  it("should run middleware around every request", async () => {
+    const fetch = jest
+      .fn()
+      .mockResolvedValueOnce(okResponse({ data: [] }))
+      .mockResolvedValueOnce(mockResponse(400, { error: "bad input" }));
+    const seen: any[] = [];
+    const onError = jest.fn();
+    const client = new GravixLayer({
+      apiKey: "test-key",
+      fetch,
+      middleware: [
+        {
+          onRequest: (request) => {
+            request.headers["X-Trace-Id"] = "trace-1";
+          },
+        },
+      ],
+    }).use({
+      onResponse: (request, response) => {
+        seen.push([request.method, request.url, response.status]);
+        expect(response.durationMs).toBeGreaterThanOrEqual(0);
+      },
+      onError,
+    });
+
+    await client.embeddings.create({ model: "m", input: "hello" });
+    await expect(
+      client.embeddings.create({ model: "m", input: "hello" }),
+    ).rejects.toThrow("bad input");
+
+    const [, init] = fetch.mock.calls[0];
+    expect(init.headers["X-Trace-Id"]).toBe("trace-1");
+    expect(seen.map(([, , status]) => status)).toEqual([200, 400]);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][1]).toBeInstanceOf(GravixLayerBadRequestError);
+  });
+
+  it("should detach from a reused abort signal after each call", async () => {
+    const fetch = jest
+      .fn()
+      .mockImplementation(async (url: string) =>
+        url.endsWith("/chat/completions")
+          ? sseResponse([
+              'data: {"choices":[{"index":0,"delta":{"content":"Hi"}}]}\n\n',
+              "data: [DONE]\n\n",
+            ])
+          : okResponse({ data: [] }),
+      );
+    let failResponse = false;
+    const client = new GravixLayer({ apiKey: "test-key", fetch }).use({
+      onResponse: () => {
+        if (failResponse) throw new Error("middleware failed");
+      },
+    });
+    const { signal } = new AbortController();
+
+    await client.embeddings.create({ model: "m", input: "a" }, { signal });
+    await client.embeddings.create({ model: "m", input: "b" }, { signal });
+    failResponse = true;
+    await expect(
+      client.embeddings.create({ model: "m", input: "c" }, { signal }),
+    ).rejects.toThrow("middleware failed");
+    failResponse = false;
+    expect(getEventListeners(signal, "abort")).toHaveLength(0);
+
+    const stream = await client.chat.completions.create(
+      { model: "m", messages: [{ role: "user", content: "hi" }], stream: true },
+      { signal },
+    );
+    expect(getEventListeners(signal, "abort")).toHaveLength(1);
+    for await (const _chunk of stream) {
+      // Drain the stream
+    }
+    expect(getEventListeners(signal, "abort")).toHaveLength(0);
+  });
+
+  it("should route concurrent calls to their service endpoints", async () => {
+    const fetch = jest.fn().mockImplementation(async () => okResponse({}));
+    const client = new GravixLayer({
+      apiKey: "test-key",
+      fetch,
+      endpoints: { agents: "https://agents.example.com/v1/agents/" },
+    });
+
+    await Promise.all([
+      client.sandbox.sandboxes.get("sbx-1"),
+      client.deployments.list(),
+      client.embeddings.create({ model: "m", input: "hello" }),
+    ]);
+
+    const urls = fetch.mock.calls.map(([url]) => url);
+    expect(urls).toEqual([
+      "https://agents.example.com/v1/agents/sandboxes/sbx-1",
+      "https://api.gravixlayer.com/v1/deployments/list",
+      "https://api.gravixlayer.com/v1/inference/embeddings",
+    ]);
+  });
+
+  it("should send vector traffic to the configured base URL", async () => {
+    const fetch = jest
+      .fn()
+      .mockImplementation(async () => okResponse({ indexes: [] }));
+    const client = new GravixLayer({
+      apiKey: "test-key",
+      baseURL: "http://localhost:8080/v1/inference",
+      fetch,
+    });
+
+    await client.vectors.indexes.list();
+    await client.vectors.index("idx-1").listIds();
+
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+      "http://localhost:8080/v1/vectors/indexes",
+      "http://localhost:8080/v1/vectors/idx-1/list",
+    ]);
+  });
+
+  it("should accumulate streamed content and tool call deltas", async () => {
+    const events = [
+      { choices: [{ index: 0, delta: { role: "assistant", content: "Hel" } }] },
+      { choices: [{ index: 0, delta: { content: "lo" } }] },
+      {
+        choices: [
+          {
+            index: 0,
+            delta: {
+              tool_calls: [
+                {
+                  index: 0,
+                  id: "call_1",
+                  function: { name: "lookup", arguments: '{"q":' },
+                },
+              ],
+            },
+          },
+        ],
+      },
+      {
+        choices: [
+          {
+            index: 0,
+            delta: {
+              tool_calls: [{ index: 0, function: { arguments: '"x"}' } }],
+            },
+            finish_reason: "tool_calls",
+          },
+        ],
+      },
+    ];
+    const payload =
+      events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join("") +
+      "data: [DONE]\n\n";
+    const fetch = jest
+      .fn()
+      .mockImplementation(async () =>
+        sseResponse([payload.slice(0, 50), payload.slice(50)]),
+      );
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+
+    const contents: string[] = [];
+    const onDone = jest.fn();
+    const stream = client.chat.completions
+      .stream({ model: "m", messages: [{ role: "user", content: "hi" }] })
+      .on("content", (delta) => contents.push(delta))
+      .on("done", onDone);
+
+    const text: string[] = [];
+    for await (const delta of stream.textStream) text.push(delta);
+    const message = await stream.finalMessage();
+
+    expect(JSON.parse(fetch.mock.calls[0][1].body).stream).toBe(true);
+    expect(text).toEqual(["Hel", "lo"]);
+    expect(contents).toEqual(["Hel", "lo"]);
+    expect(message.content).toBe("Hello");
+    expect(message.tool_calls).toEqual([
+      {
+        index: 0,
+        id: "call_1",
+        type: "function",
+        function: { name: "lookup", arguments: '{"q":"x"}' },
+      },
+    ]);
+    expect(onDone).toHaveBeenCalledTimes(1);
+    expect((await stream.finalChatCompletion()).choices[0].finish_reason).toBe(
+      "tool_calls",
+    );
+  });
+
+  it("should not leak errors thrown by done and error listeners", async () => {
+    const unhandled = jest.fn();
+    process.on("unhandledRejection", unhandled);
+    const fetch = jest
+      .fn()
+      .mockImplementationOnce(async () =>
+        sseResponse([
+          'data: {"choices":[{"index":0,"delta":{"content":"Hi"}}]}\n\n',
+        ]),
+      )
+      .mockImplementationOnce(async () => mockResponse(400, { error: "no" }));
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+    const params = {
+      model: "m",
+      messages: [{ role: "user" as const, content: "hi" }],
+    };
+    const listener = () => {
+      throw new Error("listener failed");
+    };
+
+    const done = client.chat.completions.stream(params).on("done", listener);
+    expect((await done.finalMessage()).content).toBe("Hi");
+    const failed = client.chat.completions.stream(params).on("error", listener);
+    await expect(failed.finalChatCompletion()).rejects.toBeInstanceOf(
+      GravixLayerBadRequestError,
+    );
+    await new Promise((resolve) => setImmediate(resolve));
+
+    process.off("unhandledRejection", unhandled);
+    expect(unhandled).not.toHaveBeenCalled();
+  });
+
+  it("should reject pending reads when a stream is aborted", async () => {
+    const fetch = jest
+      .fn()
+      .mockImplementation(
+        (_url: string, init: any) =>
+          new Promise((_resolve, reject) =>
+            init.signal.addEventListener("abort", () =>
+              reject(new Error("aborted")),
+            ),
+          ),
+      );
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+
+    const stream = client.chat.completions.stream({
+      model: "m",
+      messages: [{ role: "user", content: "hi" }],
+    });
+    stream.abort();
+
+    await expect(stream.finalChatCompletion()).rejects.toBeInstanceOf(
+      GravixLayerConnectionError,
+    );
+
+    // A transport that ignores the signal still releases pending reads
+    const stuck = new GravixLayer({
+      apiKey: "test-key",
+      fetch: () => new Promise(() => {}),
+      timeout: 10,
+    }).chat.completions.stream({
+      model: "m",
+      messages: [{ role: "user", content: "hi" }],
+    });
+    const read = stuck[Symbol.asyncIterator]().next();
+    stuck.abort();
+    await expect(read).rejects.toBeInstanceOf(GravixLayerConnectionError);
+  });
+
+  it("should skip named events that do not carry JSON", async () => {
+    const fetch = jest
+      .fn()
+      .mockImplementation(async () =>
+        sseResponse([
+          'data: {"choices":[{"index":0,"delta":{"content":"Hi"}}]}\n\n',
+          "event: ping\ndata: keep-alive\n\n",
+          'data: {"choices":[{"index":0,"delta":{"content":" there"}}]}\n\n',
+          "data: [DONE]\n\n",
+        ]),
+      );
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+
+    const stream = client.chat.completions.stream({
+      model: "m",
+      messages: [{ role: "user", content: "hi" }],
+    });
+    expect((await stream.finalMessage()).content).toBe("Hi there");
+  });
+
+  it("should surface error events sent mid-stream", async () => {
+    const fetch = jest
+      .fn()
+      .mockImplementation(async () =>
+        sseResponse([
+          'data: {"choices":[{"index":0,"delta":{"content":"Hi"}}]}\n\n',
+          'event: error\ndata: {"error":{"message":"model overloaded","code":"overloaded"}}\n\n',
+          'data: {"choices":[{"index":0,"delta":{"content":" there"}}]}\n\n',
+        ]),
+      );
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+
+    const stream = await client.chat.completions.create({
+      model: "m",
+      messages: [{ role: "user", content: "hi" }],
+      stream: true,
+    });
+    const received: string[] = [];
+    const consume = async () => {
+      for await (const chunk of stream) {
+        received.push(chunk.choices[0].delta?.content || "");
+      }
+    };
+
+    const error = await consume().catch((e) => e);
+    expect(error).toBeInstanceOf(GravixLayerError);
+    expect(error.message).toBe("model overloaded");
+    expect(error.code).toBe("overloaded");
+    expect(received).toEqual(["Hi"]);
+  });
+
+  it("should run tools until the model answers", async () => {
+    const toolCall = (id: string, city: string) => ({
+      id,
+      type: "function",
+      function: { name: "getWeather", arguments: JSON.stringify({ city }) },
+    });
+    const fetch = jest
+      .fn()
+      .mockResolvedValueOnce(
+        okResponse({
+          choices: [
+            {
+              index: 0,
+              message: {
+                role: "assistant",
+                content: null,
+                tool_calls: [toolCall("a", "Oslo"), toolCall("b", "Rome")],
+              },
+              finish_reason: "tool_calls",
+            },
+          ],
+          usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+        }),
+      )
+      .mockResolvedValueOnce(
+        okResponse({
+          choices: [
+            {
+              index: 0,
+              message: { role: "assistant", content: "Cold and warm." },
+              finish_reason: "stop",
+            },
+          ],
+          usage: { prompt_tokens: 9, completion_tokens: 3, total_tokens: 12 },
+        }),
+      );
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+    const getWeather = jest.fn(async ({ city }: { city: string }) => ({
+      city,
+      celsius: city === "Oslo" ? 2 : 24,
+    }));
+    const onToolResult = jest.fn();
+
+    const runner = client.chat.completions
+      .runTools({
+        model: "m",
+        messages: [{ role: "user", content: "Weather?" }],
+        tools: [
+          {
+            name: "getWeather",
+            function: getWeather,
+            description: "Current weather for a city",
+            parameters: {
+              type: "object",
+              properties: { city: { type: "string" } },
+            },
+          },
+        ],
+      })
+      .on("toolResult", onToolResult);
+    const transcript = await runner.done();
+
+    expect(getWeather).toHaveBeenCalledTimes(2);
+    expect(onToolResult).toHaveBeenCalledTimes(2);
+    expect(transcript.map((message) => message.role)).toEqual([
+      "user",
+      "assistant",
+      "tool",
+      "tool",
+      "assistant",
+    ]);
+    expect(transcript[3]).toEqual({
+      role: "tool",
+      tool_call_id: "b",
+      content: '{"city":"Rome","celsius":24}',
+    });
+    expect(await runner.finalContent()).toBe("Cold and warm.");
+    expect(runner.totalUsage().total_tokens).toBe(19);
+
+    const secondRequest = JSON.parse(fetch.mock.calls[1][1].body);
+    expect(secondRequest.tools[0].function.name).toBe("getWeather");
+    expect(secondRequest.messages).toHaveLength(4);
+    expect(secondRequest.messages[2].tool_call_id).toBe("a");
+  });
+
+  it("should stop tool runs after maxIterations", async () => {
+    const fetch = jest.fn().mockImplementation(async () =>
+      okResponse({
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: "assistant",
+              content: null,
+              tool_calls: [
+                {
+                  id: "a",
+                  type: "function",
+                  function: { name: "missing", arguments: "{}" },
+                },
+              ],
+            },
+          },
+        ],
+      }),
+    );
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+
+    const runner = client.chat.completions.runTools({
+      model: "m",
+      messages: [{ role: "user", content: "loop" }],
+      tools: [{ name: "noop", function: () => "ok" }],
+      maxIterations: 2,
+    });
+
+    await expect(runner.done()).rejects.toThrow("within 2 iterations");
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(runner.messages[2].content).toContain(
+      'Tool "missing" does not exist',
+    );
+  });
+
+  it("should validate structured output against a Zod schema", async () => {
+    const reply = (content: string) =>
+      okResponse({
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: "assistant",
+              content,
+              tool_calls: [
+                {
+                  id: "a",
+                  type: "function",
+                  function: { name: "search", arguments: '{"query":"sdk"}' },
+                },
+              ],
+            },
+          },
+        ],
+      });
+    const fetch = jest
+      .fn()
+      .mockResolvedValueOnce(reply('{"name":"Ada","age":36}'))
+      .mockResolvedValueOnce(reply('{"name":"Ada","age":"old"}'));
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+
+    const Person = z.object({
+      name: z.string().describe("Full name"),
+      age: z.number().int(),
+      email: z.string().optional(),
+    });
+    const search = schemaTool({
+      name: "search",
+      parameters: {
+        type: "object",
+        properties: { query: { type: "string" } },
+        required: ["query"],
+      },
+    });
+    const params = {
+      model: "m",
+      messages: [{ role: "user", content: "Who?" }],
+      response_format: schemaResponseFormat(Person, "person"),
+      tools: [search],
+    };
+
+    const completion = await client.chat.completions.parse(params);
+    const { message } = completion.choices[0];
+    expect(message.parsed).toEqual({ name: "Ada", age: 36 });
+    expect(message.tool_calls![0].function.parsed_arguments).toEqual({
+      query: "sdk",
+    });
+
+    const sent = JSON.parse(fetch.mock.calls[0][1].body);
+    expect(sent.response_format.json_schema.schema).toEqual({
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Full name" },
+        age: { type: "integer" },
+        email: { type: "string" },
+      },
+      required: ["name", "age"],
+      additionalProperties: false,
+    });
+    expect(sent.tools[0]).toEqual({
+      type: "function",
+      function: { name: "search", parameters: search.function.parameters },
+    });
+
+    const error = await client.chat.completions.parse(params).catch((e) => e);
+    expect(error).toBeInstanceOf(GravixLayerValidationError);
+    expect(error.content).toBe('{"name":"Ada","age":"old"}');
+    expect(error.issues[0].path).toEqual(["age"]);
+  });
+
+  it("should pass through extra parameters and response fields", async () => {
+    const logprobs = {
+      content: [{ token: "Hi", logprob: -0.1, bytes: null, top_logprobs: [] }],
+    };
+    const fetch = jest.fn().mockResolvedValueOnce(
+      okResponse({
+        id: "chatcmpl-1",
+        system_fingerprint: "fp_1",
+        provider: "gravix",
+        choices: [
+          {
+            index: 0,
+            message: { role: "assistant", content: "Hi", refusal: null },
+            logprobs,
+            finish_reason: "stop",
+          },
+        ],
+        usage: {
+          prompt_tokens: 3,
+          completion_tokens: 1,
+          total_tokens: 4,
+          prompt_tokens_details: { cached_tokens: 2 },
+        },
+      }),
+    );
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+
+    const completion = await client.chat.completions.create({
+      model: "m",
+      messages: [{ role: "user", content: "hi" }],
+      seed: 7,
+      logprobs: true,
+      top_logprobs: 2,
+      parallel_tool_calls: false,
+      extra_body: { repetition_penalty: 1.1 },
+    });
+
+    const sent = JSON.parse(fetch.mock.calls[0][1].body);
+    expect(sent).toMatchObject({
+      seed: 7,
+      logprobs: true,
+      top_logprobs: 2,
+      parallel_tool_calls: false,
+      repetition_penalty: 1.1,
+    });
+    expect(sent.extra_body).toBeUndefined();
+    expect(completion.system_fingerprint).toBe("fp_1");
+    expect((completion as any).provider).toBe("gravix");
+    expect(completion.choices[0].logprobs).toEqual(logprobs);
+    expect(completion.choices[0].message.refusal).toBeNull();
+    expect(completion.usage!.prompt_tokens_details).toEqual({
+      cached_tokens: 2,
+    });
+  });
+
+  it("should keep usage from the final stream chunk", async () => {
+    const fetch = jest
+      .fn()
+      .mockImplementation(async () =>
+        sseResponse([
+          'data: {"choices":[{"index":0,"delta":{"content":"Hi"},"finish_reason":"stop"}]}\n\n',
+          'data: {"choices":[],"usage":{"prompt_tokens":3,"completion_tokens":1,"total_tokens":4}}\n\n',
+          "data: [DONE]\n\n",
+        ]),
+      );
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+
+    const completion = await client.chat.completions
+      .stream({
+        model: "m",
+        messages: [{ role: "user", content: "hi" }],
+        stream_options: { include_usage: true },
+      })
+      .finalChatCompletion();
+
+    expect(completion.choices).toHaveLength(1);
+    expect(completion.choices[0].message.content).toBe("Hi");
+    expect(completion.usage!.total_tokens).toBe(4);
+
+    fetch.mockImplementationOnce(async () =>
+      sseResponse([
+        'data: {"choices":[],"usage":{"prompt_tokens":3,"completion_tokens":0,"total_tokens":3}}\n\n',
+        "data: [DONE]\n\n",
+      ]),
+    );
+    await expect(
+      client.chat.completions
+        .stream({ model: "m", messages: [{ role: "user", content: "hi" }] })
+        .finalMessage(),
+    ).rejects.toThrow("The stream produced no choices");
+  });
+
+  it("should send multimodal content parts", async () => {
+    const fetch = jest.fn().mockResolvedValueOnce(
+      okResponse({
+        choices: [
+          { index: 0, message: { role: "assistant", content: "A cat" } },
+        ],
+      }),
+    );
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+    const png = Buffer.from(
+      "89504e470d0a1a0a0000000d49484452000000010000000108060000001f15c489",
+      "hex",
+    );
+
+    const reply = await client.chat.completions.create({
+      model: "vision-model",
+      messages: [
+        {
+          role: "user",
+          content: [
+            textPart("What is this?"),
+            imagePart(png, { detail: "low" }),
+            imagePart("https://example.com/cat.jpg"),
+          ],
+        },
+      ],
+    });
+
+    const [message] = JSON.parse(fetch.mock.calls[0][1].body).messages;
+    expect(message.content).toEqual([
+      { type: "text", text: "What is this?" },
+      {
+        type: "image_url",
+        image_url: {
+          url: `data:image/png;base64,${png.toString("base64")}`,
+          detail: "low",
+        },
+      },
+      { type: "image_url", image_url: { url: "https://example.com/cat.jpg" } },
+    ]);
+    // Replies stay plain text
+    expect(reply.choices[0].message.content?.toUpperCase()).toBe("A CAT");
+  });
+
+  it("should expose the raw response next to parsed results", async () => {
+    const fetch = jest
+      .fn()
+      .mockImplementation(async (url: string) =>
+        mockResponse(
+          200,
+          url.endsWith("/embeddings")
+            ? { data: [{ embedding: [0.1], index: 0 }], model: "m" }
+            : { templates: [], limit: 10, offset: 0 },
+          { "x-request-id": "req_42", "x-ratelimit-remaining-requests": "99" },
+        ),
+      );
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+
+    const { data, response, requestId } = await client.embeddings
+      .create({ model: "m", input: "hello" })
+      .withResponse();
+    expect(data.data[0].embedding).toEqual([0.1]);
+    expect(requestId).toBe("req_42");
+    expect(response.headers.get("x-ratelimit-remaining-requests")).toBe("99");
+
+    const raw = await client.sandbox.templates.list().asResponse();
+    expect(raw.status).toBe(200);
+
+    const upload = await client.files
+      .upload({
+        file: Buffer.from("hello"),
+        filename: "hello.txt",
+        purpose: "assistants",
+      })
+      .withResponse();
+    expect(upload.requestId).toBe("req_42");
+
+    // Plain awaiting still yields the parsed result
+    const templates = await client.sandbox.templates.list();
+    expect(templates.templates).toEqual([]);
+  });
+
+  it("should track rate-limit headers per model", async () => {
+    const fetch = jest.fn().mockImplementation(async () =>
+      mockResponse(
+        200,
+        { data: [], model: "m" },
+        {
+          "x-ratelimit-limit-requests": "100",
+          "x-ratelimit-remaining-requests": "42",
+          "x-ratelimit-remaining-tokens": "9000",
+          "x-ratelimit-reset-requests": "1m30s",
+          "x-ratelimit-reset-tokens": "250ms",
+        },
+      ),
+    );
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+
+    const before = Date.now();
+    await client.embeddings.create({ model: "bge", input: "hello" });
+
+    const state = client.rateLimits.get("bge")!;
+    expect(state.limitRequests).toBe(100);
+    expect(state.remainingRequests).toBe(42);
+    expect(state.remainingTokens).toBe(9000);
+    expect(state.resetRequestsAt! - before).toBeGreaterThanOrEqual(90000);
+    expect(state.resetTokensAt! - state.updatedAt).toBe(250);
+    expect(client.rateLimits.get("other")).toBeUndefined();
+  });
+
+  it("should sum usage per model, user and tag with estimated cost", async () => {
+    const fetch = jest
+      .fn()
+      .mockResolvedValueOnce(
+        okResponse({
+          model: "llama",
+          choices: [{ message: { role: "assistant", content: "hi" } }],
+          usage: {
+            prompt_tokens: 100,
+            completion_tokens: 20,
+            total_tokens: 120,
+          },
+        }),
+      )
+      .mockResolvedValueOnce(
+        okResponse({
+          model: "bge",
+          data: [{ embedding: [0.1] }],
+          usage: { prompt_tokens: 50, total_tokens: 50 },
+        }),
+      );
+    const onUsage = jest.fn();
+    const client = new GravixLayer({
+      apiKey: "test-key",
+      fetch,
+      usage: { prices: { llama: { prompt: 1, completion: 2 } }, onUsage },
+    });
+
+    await client.chat.completions.create(
+      {
+        model: "llama",
+        messages: [{ role: "user", content: "hi" }],
+        user: "alice",
+      },
+      { tags: ["search"] },
+    );
+    await client.embeddings.create(
+      { model: "bge", input: "hello" },
+      { tags: ["search", "ingest"] },
+    );
+
+    const snapshot = client.usage.reset();
+    expect(snapshot.total).toMatchObject({ requests: 2, totalTokens: 170 });
+    expect(snapshot.byModel.llama.cost).toBeCloseTo(0.00014);
+    expect(snapshot.byModel.bge.cost).toBe(0);
+    expect(snapshot.byUser.alice.promptTokens).toBe(100);
+    expect(snapshot.byTag.search.requests).toBe(2);
+    expect(snapshot.byTag.ingest.totalTokens).toBe(50);
+    expect(onUsage).toHaveBeenCalledWith(
+      expect.objectContaining({ source: "embeddings", model: "bge" }),
+    );
+    expect(client.usage.snapshot().total.requests).toBe(0);
+
+    // Cumulative usage repeated on every chunk is counted once
+    fetch.mockResolvedValueOnce(
+      sseResponse([
+        'data: {"choices":[{"index":0,"delta":{"content":"H"}}],"usage":{"prompt_tokens":5,"completion_tokens":1,"total_tokens":6}}\n\n',
+        'data: {"choices":[{"index":0,"delta":{"content":"i"}}],"usage":{"prompt_tokens":5,"completion_tokens":2,"total_tokens":7}}\n\n',
+        "data: [DONE]\n\n",
+      ]),
+    );
+    await client.chat.completions
+      .stream({ model: "llama", messages: [{ role: "user", content: "hi" }] })
+      .finalChatCompletion();
+    expect(client.usage.snapshot().total).toMatchObject({
+      requests: 1,
+      totalTokens: 7,
+    });
+  });
+
+  it("should cache embeddings and deterministic chat completions", async () => {
+    const fetch = jest.fn().mockImplementation(async (url: string) =>
+      url.endsWith("/embeddings")
+        ? okResponse({ model: "bge", data: [{ embedding: [0.5] }] })
+        : okResponse({
+            model: "llama",
+            choices: [{ message: { role: "assistant", content: "4" } }],
+          }),
+    );
+    const client = new GravixLayer({ apiKey: "test-key", fetch, cache: {} });
+
+    const first = await client.embeddings.create({ model: "bge", input: "a" });
+    first.data[0].embedding.push(1);
+    const second = await client.embeddings.create({ model: "bge", input: "a" });
+    expect(second.data[0].embedding).toEqual([0.5]);
+    await client.embeddings.create({ model: "bge", input: "b" });
+    await client.embeddings.create(
+      { model: "bge", input: "a" },
+      { cache: false },
+    );
+    expect(fetch).toHaveBeenCalledTimes(3);
+    await expect(
+      client.embeddings.create({ model: "bge", input: "a" }).withResponse(),
+    ).rejects.toThrow("served from the response cache");
+
+    const messages = [{ role: "user" as const, content: "2+2?" }];
+    await client.chat.completions.create({ model: "llama", messages });
+    await client.chat.completions.create({ model: "llama", messages });
+    await client.chat.completions.create({
+      model: "llama",
+      messages,
+      temperature: 0,
+      seed: 7,
+    });
+    const cached = await client.chat.completions.create({
+      model: "llama",
+      messages,
+      temperature: 0,
+      seed: 7,
+    });
+    expect(cached.choices[0].message.content).toBe("4");
+    expect(fetch).toHaveBeenCalledTimes(6);
+    expect(client.cache!.stats()).toEqual({ hits: 3, misses: 3 });
+  });
+
+  it("should share cached responses through a Redis store", async () => {
+    const data = new Map<string, string>();
+    const redis = {
+      get: jest.fn(async (key: string) => data.get(key) ?? null),
+      set: jest.fn(async (key: string, value: string) => data.set(key, value)),
+      del: jest.fn(async (...keys: string[]) =>
+        keys.forEach((key) => data.delete(key)),
+      ),
+      scan: jest.fn(
+        async (_cursor: string, _match: string, pattern: string) =>
+          [
+            "0",
+            [...data.keys()].filter((key) =>
+              key.startsWith(pattern.slice(0, -1)),
+            ),
+          ] as [string, string[]],
+      ),
+    };
+    data.set("other:key", "kept");
+    const fetch = jest
+      .fn()
+      .mockImplementation(async () =>
+        okResponse({ model: "bge", data: [{ embedding: [0.5] }] }),
+      );
+    const options = {
+      apiKey: "test-key",
+      fetch,
+      cache: { store: new RedisCacheStore(redis, "gl:"), ttl: 60_000 },
+    };
+
+    await new GravixLayer(options).embeddings.create({
+      model: "bge",
+      input: "a",
+    });
+    const other = new GravixLayer(options);
+    const hit = await other.embeddings.create({ model: "bge", input: "a" });
+    expect(hit.data[0].embedding).toEqual([0.5]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(redis.set.mock.calls[0][0]).toMatch(/^gl:/);
+    expect(redis.set.mock.calls[0].slice(2)).toEqual(["PX", 60_000]);
+
+    await other.cache!.clear();
+    expect([...data.keys()]).toEqual(["other:key"]);
+  });
+
+  it("should embed in batches, retry failed ones and keep input order", async () => {
+    let failures = 1;
+    const fetch = jest
+      .fn()
+      .mockImplementation(async (_url: string, init: any) => {
+        const { input } = JSON.parse(init.body);
+        if (input[0] === "c" && failures-- > 0) {
+          return mockResponse(503, { error: "busy" });
+        }
+        // Answer in reverse order; `index` says where each belongs
+        return okResponse({
+          model: "bge",
+          data: input
+            .map((text: string, index: number) => ({
+              embedding: [text.charCodeAt(0)],
+              index,
+            }))
+            .reverse(),
+          usage: { prompt_tokens: input.length, total_tokens: input.length },
+        });
+      });
+    const client = new GravixLayer({
+      apiKey: "test-key",
+      fetch,
+      maxRetries: 0,
+    });
+    const progress = jest.fn();
+
+    const result = await client.embeddings.createMany(
+      ["a", "b", "c", "d", "e"],
+      {
+        model: "bge",
+        batchSize: 2,
+        concurrency: 2,
+        onProgress: progress,
+      },
+    );
+
+    expect(result.data.map((item) => item.index)).toEqual([0, 1, 2, 3, 4]);
+    expect(result.data.map((item) => item.embedding[0])).toEqual([
+      97, 98, 99, 100, 101,
+    ]);
+    expect(result.usage).toEqual({ prompt_tokens: 5, total_tokens: 5 });
+    expect(fetch).toHaveBeenCalledTimes(4);
+    expect(progress).toHaveBeenLastCalledWith({
+      completed: 5,
+      total: 5,
+      completedBatches: 3,
+      totalBatches: 3,
+    });
+
+    await expect(
+      client.embeddings.createMany(["a"], { model: "bge", batchSize: 0 }),
+    ).rejects.toThrow("batchSize must be a positive integer");
+    expect(fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it("should decode base64 embeddings", async () => {
+    const encoded = Buffer.from(new Float32Array([0.5, -2]).buffer).toString(
+      "base64",
+    );
+    const fetch = jest
+      .fn()
+      .mockImplementation(async () =>
+        okResponse({ model: "bge", data: [{ embedding: encoded, index: 0 }] }),
+      );
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+
+    const plain = await client.embeddings.create({
+      model: "bge",
+      input: "a",
+      encoding_format: "base64",
+    });
+    expect(plain.data[0].embedding).toEqual([0.5, -2]);
+
+    const typed = await client.embeddings.create({
+      model: "bge",
+      input: "a",
+      encoding_format: "base64",
+      float32: true,
+    });
+    expect(typed.data[0].embedding).toBeInstanceOf(Float32Array);
+    expect(JSON.parse(fetch.mock.calls[1][1].body).float32).toBeUndefined();
+  });
+
+  it("should auto-paginate sandboxes by offset until the total", async () => {
+    const fetch = jest.fn().mockImplementation(async (url: string) => {
+      const offset = Number(new URL(url).searchParams.get("offset") || 0);
+      const ids = ["sbx-1", "sbx-2", "sbx-3"].slice(offset, offset + 2);
+      return okResponse({
+        sandboxes: ids.map((sandbox_id) => ({ sandbox_id })),
+        total: 3,
+      });
+    });
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+
+    const ids: string[] = [];
+    for await (const sandbox of client.sandbox.sandboxes.list({ limit: 2 })) {
+      ids.push(sandbox.sandbox_id);
+    }
+    expect(ids).toEqual(["sbx-1", "sbx-2", "sbx-3"]);
+    expect(fetch.mock.calls[1][0]).toContain("limit=2&offset=2");
+
+    const first = await client.sandbox.sandboxes.list({ limit: 2 });
+    expect(first.total).toBe(3);
+    expect(first.sandboxes).toHaveLength(2);
+    expect(first.hasNextPage()).toBe(true);
+    const second = await first.getNextPage();
+    expect(second.getPaginatedItems()).toHaveLength(1);
+    expect(second.hasNextPage()).toBe(false);
+    expect(() => second.getNextPage()).toThrow(GravixLayerError);
+  });
+
+  it("should return deployments as a single page", async () => {
+    const fetch = jest.fn().mockImplementation(async () =>
+      okResponse({
+        deployments: [{ deployment_id: "dep-1" }, { deployment_id: "dep-2" }],
+      }),
+    );
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+
+    const page = await client.deployments.list();
+    expect(page.deployments).toHaveLength(2);
+    expect(page.hasNextPage()).toBe(false);
+    const ids: string[] = [];
+    for await (const deployment of client.deployments.list()) {
+      ids.push(deployment.deployment_id);
+    }
+    expect(ids).toEqual(["dep-1", "dep-2"]);
+    expect((await client.deployments.get("dep-2")).deployment_id).toBe("dep-2");
+  });
+
+  it("should validate and serialize search filters", async () => {
+    const fetch = jest
+      .fn()
+      .mockImplementation(async () => okResponse({ hits: [] }));
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+    const index = client.vectors.index("idx-1");
+
+    await index.searchText(
+      "pets",
+      "bge",
+      5,
+      Filter.and(
+        { user_id: "u-1" },
+        Filter.in("memory_type", ["factual", "episodic"]),
+        Filter.or(
+          Filter.gte("created_at", new Date("2024-01-01T00:00:00Z")),
+          Filter.exists("pinned"),
+        ),
+      ),
+    );
+    expect(JSON.parse(fetch.mock.calls[0][1].body).filter).toEqual({
+      $and: [
+        { user_id: "u-1" },
+        { memory_type: { $in: ["factual", "episodic"] } },
+        {
+          $or: [
+            { created_at: { $gte: "2024-01-01T00:00:00.000Z" } },
+            { pinned: { $exists: true } },
+          ],
+        },
+      ],
+    });
+
+    await expect(
+      index.search([0.1], 5, { score: { $between: [1, 2] } } as any),
+    ).rejects.toThrow("Invalid filter at score.$between: unknown operator");
+    await expect(index.search([0.1], 5, { $or: [] })).rejects.toThrow(
+      GravixLayerBadRequestError,
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should import vectors in batches, resume from a checkpoint and export them", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "gravix-vectors-"));
+    const source = join(dir, "vectors.jsonl");
+    const checkpoint = join(dir, "import.checkpoint");
+    await writeFile(
+      source,
+      [
+        { id: "v1", embedding: [0.1, 0.2] },
+        { id: "v2", text: "hello", model: "bge" },
+        { id: "v3", embedding: [0.3, 0.4], metadata: { tag: "a,b" } },
+        { id: "v4" },
+        { id: "v5", embedding: [0.5, 0.6] },
+      ]
+        .map((row) => JSON.stringify(row))
+        .join("\n"),
+    );
+
+    const stored: Record<string, any> = {};
+    let failNext = true;
+    const fetch = jest
+      .fn()
+      .mockImplementation(async (url: string, init: any) => {
+        // node-fetch rejects GET requests that carry a body
+        if (init.method === "GET" && init.body !== undefined) {
+          throw new TypeError("Request with GET/HEAD method cannot have body");
+        }
+        const { pathname, searchParams } = new URL(url);
+        if (pathname.endsWith("/batch")) {
+          const { vectors } = JSON.parse(init.body);
+          if (vectors.some((v: any) => v.id === "v3") && failNext) {
+            failNext = false;
+            return mockResponse(400, { error: "bad batch" });
+          }
+          const ok = vectors.filter((v: any) => v.id !== "v5");
+          for (const v of ok) stored[v.id] = { ...v, embedding: [1, 2] };
+          return okResponse({
+            upserted_count: ok.length,
+            failed_count: vectors.length - ok.length,
+            errors: vectors.length > ok.length ? ["Vector v5: bad dims"] : [],
+          });
+        }
+        if (pathname.endsWith("/list")) {
+          return okResponse({
+            vectors: Object.keys(stored).map((id) => ({ id })),
+          });
+        }
+        const ids = searchParams.get("vector_ids")!.split(",");
+        return okResponse({ vectors: ids.map((id) => stored[id]) });
+      });
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+    const index = client.vectors.index("idx-1");
+
+    await expect(
+      index.importFrom(source, { batchSize: 2, concurrency: 1, checkpoint }),
+    ).rejects.toThrow(GravixLayerBadRequestError);
+    expect(JSON.parse(await readFile(checkpoint, "utf8"))).toEqual({
+      rows: 2,
+    });
+
+    const result = await index.importFrom(source, {
+      batchSize: 2,
+      checkpoint,
+    });
+    expect(result).toMatchObject({ rows: 5, skipped: 2, upserted: 1 });
+    expect(result.failed).toBe(2);
+    expect(result.errors).toEqual([
+      { row: 4, id: "v4", error: "Row needs an embedding or a text" },
+      { row: 5, id: "v5", error: "Vector v5: bad dims" },
+    ]);
+    await expect(readFile(checkpoint)).rejects.toThrow();
+
+    const batches = fetch.mock.calls
+      .filter(([url]) => url.includes("batch"))
+      .map(([url, init]) => [
+        new URL(url).pathname.split("/").slice(-2).join("/"),
+        JSON.parse(init.body).vectors.map((v: any) => v.id),
+      ]);
+    expect(batches).toEqual([
+      ["idx-1/batch", ["v1"]],
+      ["text/batch", ["v2"]],
+      ["idx-1/batch", ["v3"]],
+      ["idx-1/batch", ["v3"]],
+      ["idx-1/batch", ["v5"]],
+    ]);
+
+    const exported = join(dir, "export.csv");
+    expect(await index.exportTo(exported)).toEqual({ exported: 3 });
+    const [fetchURL, fetchInit] = fetch.mock.calls.find(([url]) =>
+      url.includes("/fetch"),
+    );
+    expect(fetchInit.body).toBeUndefined();
+    expect(new URL(fetchURL).searchParams.get("vector_ids")).toBe("v1,v2,v3");
+    expect((await readFile(exported, "utf8")).split("\n")[0]).toBe(
+      "id,embedding,metadata",
+    );
+
+    const roundTrip = await index.importFrom(exported);
+    expect(roundTrip.upserted).toBe(3);
+    const [, init] = fetch.mock.calls[fetch.mock.calls.length - 1];
+    expect(JSON.parse(init.body).vectors[2]).toMatchObject({
+      id: "v3",
+      embedding: [1, 2],
+      metadata: { tag: "a,b" },
+    });
+
+    await expect(index.importFrom([], { concurrency: NaN })).rejects.toThrow(
+      "concurrency must be a positive integer",
+    );
+
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should attribute a server error to the exact vector ID", async () => {
+    const fetch = jest.fn().mockImplementation(async () =>
+      okResponse({
+        upserted_count: 1,
+        failed_count: 1,
+        errors: ["vector 10: dimension mismatch"],
+      }),
+    );
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+
+    const result = await client.vectors.index("idx-1").importFrom([
+      { id: "1", embedding: [1, 2] },
+      { id: "10", embedding: [1] },
+    ]);
+    expect(result.errors).toEqual([
+      { row: 2, id: "10", error: "vector 10: dimension mismatch" },
+    ]);
+  });
+
+  it("should fuse dense and keyword hits and rerank them", async () => {
+    const documents = [
+      {
+        id: "d1",
+        metadata: { content: "Waterproof hiking boots", lang: "en" },
+      },
+      {
+        id: "d2",
+        metadata: { content: "Trail shoe SKU-4411 in blue", lang: "en" },
+      },
+      { id: "d3", metadata: { content: "Bottes de randonnée", lang: "fr" } },
+      { id: "d4", metadata: { tag: "no text" } },
+    ];
+    let metric = "cosine";
+    const fetch = jest
+      .fn()
+      .mockImplementation(async (url: string, init: any) => {
+        if (init.method === "GET" && init.body !== undefined) {
+          throw new TypeError("Request with GET/HEAD method cannot have body");
+        }
+        const { pathname } = new URL(url);
+        if (pathname.endsWith("/search/text")) {
+          return okResponse({
+            hits: [
+              { id: "d1", score: 0.9, metadata: documents[0].metadata },
+              { id: "d3", score: 0.8, metadata: documents[2].metadata },
+            ],
+            usage: { prompt_tokens: 3 },
+          });
+        }
+        if (pathname.endsWith("/indexes/idx-1")) {
+          return okResponse({ id: "idx-1", dimension: 2, metric });
+        }
+        if (pathname.endsWith("/list")) {
+          return okResponse({ vectors: documents.map(({ id }) => ({ id })) });
+        }
+        if (pathname.endsWith("/fetch")) {
+          return okResponse({ vectors: documents });
+        }
+        return okResponse({
+          choices: [
+            {
+              index: 0,
+              message: {
+                role: "assistant",
+                content: JSON.stringify({
+                  scores: [
+                    { index: 0, score: 2 },
+                    { index: 1, score: 9 },
+                  ],
+                }),
+              },
+            },
+          ],
+        });
+      });
+    const client = new GravixLayer({ apiKey: "test-key", fetch });
+    const index = client.vectors.index("idx-1");
+
+    const fused = await index.hybridSearch("SKU-4411", "bge", {
+      topK: 3,
+      filter: { lang: "en" },
+    });
+    expect(fused.hits.map((hit) => hit.id)).toEqual(["d1", "d2", "d3"]);
+    expect(fused.hits[0]).toMatchObject({
+      dense_score: 0.9,
+      keyword_score: undefined,
+    });
+    expect(fused.hits[1]).toMatchObject({
+      dense_score: undefined,
+      metadata: documents[1].metadata,
+    });
+    expect(fused.hits[1].keyword_score).toBeGreaterThan(0);
+    expect(fused.usage).toEqual({ prompt_tokens: 3 });
+
+    const reranked = await index.hybridSearch("SKU-4411", "bge", {
+      topK: 2,
+      fusion: "weighted",
+      rerank: { model: "llama", topN: 2 },
+    });
+    expect(reranked.hits.map((hit) => [hit.id, hit.rerank_score])).toEqual([
+      ["d2", 9],
+      ["d1", 2],
+    ]);
+    const chatBody = JSON.parse(
+      fetch.mock.calls[fetch.mock.calls.length - 1][1].body,
+    );
+    expect(chatBody.messages[1].content).toContain("[1] Trail shoe SKU-4411");
+
+    // On a euclidean index the scores are distances, so d3 is nearer
+    metric = "euclidean";
+    const nearest = await index.hybridSearch("boots", "bge", {
+      fusion: "weighted",
+      denseWeight: 1,
+    });
+    expect(nearest.hits[0]).toMatchObject({ id: "d3", dense_score: 0.8 });
+  });
+
+  it("should migrate an index with re-embedding and delete an unprotected source", async () => {
+    const source = [
+      { id: "a", embedding: [1, 0], metadata: { content: "alpha" } },
+      {
+        id: "b",
+        embedding: [0, 1],
+        metadata: { content: "beta", stale: true },
+      },
+      {
+        id: "c",
+        embedding: [1, 1],
+        metadata: { content: "gamma" },
+        delete_protection: true,
+      },
+    ];
+    const copied: string[] = [];
+    const fetch = jest
+      .fn()
+      .mockImplementation(async (url: string, init: any) => {
+        if (init.method === "GET" && init.body !== undefined) {
+          throw new TypeError("Request with GET/HEAD method cannot have body");
+        }
+        const path = new URL(url).pathname;
+        if (path.endsWith("/indexes/idx-old") && init.method === "DELETE") {
+          return okResponse({ message: "deleted" });
+        }
+        if (path.endsWith("/indexes/idx-old")) {
+          return okResponse({
+            id: "idx-old",
+            dimension: 2,
+            delete_protection: false,
+          });
+        }
+        if (path.endsWith("/indexes")) {
+          return okResponse({ id: "idx-new", ...JSON.parse(init.body) });
+        }
+        if (path.endsWith("/idx-old/list")) {
+          return okResponse({ vectors: source.map(({ id }) => ({ id })) });
+        }
+        if (path.endsWith("/idx-old/fetch")) {
+          return okResponse({ vectors: source });
+        }
+        if (path.endsWith("/idx-new/text/batch")) {
+          const { vectors } = JSON.parse(init.body);
+          const ids = vectors.map((v: any) => v.id);
+          copied.push(...ids);
+          // The shape the API actually returns
+          return okResponse({ ids, count: ids.length });
+        }
+        if (path.endsWith("/idx-new/list")) {
+          return okResponse({ vectors: copied.map((id) => ({ id })) });
+        }
+        throw new Error(`Unexpected request to ${path}`);
+      });
+    const warn = jest.fn();
+    const client = new GravixLayer({
+      apiKey: "test-key",
+      fetch,
+      logger: { ...console, warn },
+    });
+
+    await expect(
+      client.vectors.migrate({
+        from: "idx-old",
+        to: { name: "new", dimension: 1024, metric: "cosine" },
+      }),
+    ).rejects.toThrow("pass reembedWith");
+
+    const result = await client.vectors.migrate({
+      from: "idx-old",
+      to: { name: "new", dimension: 1024, metric: "cosine" },
+      reembedWith: "bge-large",
+      transform: (vector) =>
+        vector.metadata?.stale
+          ? null
+          : { ...vector, metadata: { ...vector.metadata, v: 2 } },
+      deleteSource: true,
+    });
+    expect(result).toMatchObject({
+      index: { id: "idx-new", dimension: 1024 },
+      total: 3,
+      migrated: 2,
+      skipped: 1,
+      failed: 0,
+      verified: true,
+      sourceDeleted: false,
+    });
+
+    const batch = fetch.mock.calls.find(([url]) => url.endsWith("/text/batch"));
+    expect(JSON.parse(batch[1].body).vectors[0]).toEqual({
+      id: "a",
+      text: "alpha",
+      model: "bge-large",
+      metadata: { content: "alpha", v: 2 },
+      delete_protection: false,
+    });
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("1 of its vectors have delete protection"),
+    );
+    expect(fetch.mock.calls.some(([, init]) => init.method === "DELETE")).toBe(
+      false,
+    );
+
+    // Without protected vectors, a verified migration deletes the source
+    source[2].delete_protection = false;
+    copied.length = 0;
+    const again = await client.vectors.migrate({
+      from: "idx-old",
+      to: { name: "new", dimension: 1024, metric: "cosine" },
+      reembedWith: "bge-large",
+      deleteSource: true,
+    });
+    expect(again).toMatchObject({
+      migrated: 3,
+      verified: true,
+      sourceDeleted: true,
+    });
+    const [deleteURL] = fetch.mock.calls.find(
+      ([, init]) => init.method === "DELETE",
+    );
+    expect(deleteURL).toMatch(/\/indexes\/idx-old$/);
+  });
+});
+
+describe("embedding utilities", () => {
+  it("should score vectors by the index metrics", () => {
+    expect(vectorScore("dot_product", [1, 2], [3, 4])).toBe(11);
+    expect(vectorScore("cosine", [1, 0], [0, 5])).toBe(0);
+    expect(vectorScore("euclidean", [0, 0], [3, 4])).toBe(5);
+    expect(() => vectorScore("cosine", [1], [1, 2])).toThrow(
+      "different dimensions",
+    );
+  });
+
+  it("should normalize and truncate embeddings", () => {
+    expect(l2Normalize([3, 4])).toEqual([0.6, 0.8]);
+    const truncated = truncateEmbedding(new Float32Array([3, 4, 12]), 2);
+    expect(truncated).toBeInstanceOf(Float32Array);
+    expect(Array.from(truncated)).toEqual([
+      expect.closeTo(0.6),
+      expect.closeTo(0.8),
+    ]);
+  });
+});
+
+describe("RateLimiter", () => {
+  it("should refill request and token buckets over time", () => {
+    const limiter = new RateLimiter({
+      requestsPerMinute: 2,
+      tokensPerMinute: 1000,
+    });
+
+    expect(limiter.reserve("m", 600, 0)).toBe(0);
+    // 400 tokens left; 200 more refill in 12 seconds
+    expect(limiter.reserve("m", 600, 0)).toBe(12000);
+    expect(limiter.reserve("m", 600, 12000)).toBe(0);
+    // 0.4 requests left; a whole one takes another 18 seconds
+    expect(Math.round(limiter.reserve("m", 1, 12000) / 1000)).toBe(18);
+    // Buckets are per model
+    expect(limiter.reserve("other", 1, 12000)).toBe(0);
+  });
+});
+
+describe("SSEDecoder", () => {
+  it("should decode events split across chunks and line endings", () => {
+    const decoder = new SSEDecoder();
+    const events = [
+      ...decoder.decode(": keep-alive\r\nevent: update\r"),
+      ...decoder.decode("\nid: 7\nretry: 3000\ndata: first\ndata:second\r\n"),
+      ...decoder.decode('\r\ndata: {"a":1}\n\ndata: tail'),
+      ...decoder.flush(),
+    ];
+
+    expect(events).toEqual([
+      { event: "update", data: "first\nsecond", id: "7", retry: 3000 },
+      { event: null, data: '{"a":1}', id: "7" },
+      { event: null, data: "tail", id: "7" },
+    ]);
+  });
+});
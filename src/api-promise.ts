@@ -0,0 +1,105 @@
+/**
+ * Promise returned by resource methods, with access to the raw response
+ */
+import { AsyncLocalStorage } from "async_hooks";
+import { FetchResponse } from "./types/transport";
+import { GravixLayerError } from "./types/exceptions";
+
+export interface APIResponse<T> {
+  data: T;
+  /** The last HTTP response of the call. Its body has already been read. */
+  response: FetchResponse;
+  requestId?: string;
+}
+
+interface ResponseCapture {
+  response?: FetchResponse;
+  cacheHit?: boolean;
+}
+
+const captures = new AsyncLocalStorage<ResponseCapture>();
+
+/**
+ * Remember `response` as the raw response of the enclosing API call.
+ */
+export function captureResponse(response: FetchResponse): void {
+  const capture = captures.getStore();
+  if (capture) capture.response = response;
+}
+
+/**
+ * Note that the enclosing API call was answered from the response cache.
+ */
+export function markCacheHit(): void {
+  const capture = captures.getStore();
+  if (capture) capture.cacheHit = true;
+}
+
+export function requestIdFrom(headers: {
+  get(name: string): string | null;
+}): string | undefined {
+  return headers.get("x-request-id") || headers.get("request-id") || undefined;
+}
+
+/**
+ * A `Promise` of the parsed result that can also expose the HTTP response
+ * it came from, through `withResponse()` and `asResponse()`.
+ */
+export class APIPromise<T> extends Promise<T> {
+  private result: Promise<{
+    data: T;
+    response?: FetchResponse;
+    cacheHit?: boolean;
+  }>;
+
+  constructor(run: () => Promise<T>) {
+    // The base promise is never used; results come from `this.result`
+    super((resolve) => resolve(null as T));
+
+    const capture: ResponseCapture = {};
+    this.result = captures.run(capture, async () => ({
+      data: await run(),
+      response: capture.response,
+      cacheHit: capture.cacheHit,
+    }));
+  }
+
+  /**
+   * Resolve with the parsed data, the raw response and its request ID.
+   */
+  async withResponse(): Promise<APIResponse<T>> {
+    const { data, response, cacheHit } = await this.result;
+    if (!response) {
+      throw new GravixLayerError(
+        cacheHit
+          ? "This result was served from the response cache, so there is no HTTP response; pass `cache: false` to make a request"
+          : "This call did not make an HTTP request",
+      );
+    }
+    return { data, response, requestId: requestIdFrom(response.headers) };
+  }
+
+  /**
+   * Resolve with the raw response once the call completes.
+   */
+  async asResponse(): Promise<FetchResponse> {
+    return (await this.withResponse()).response;
+  }
+
+  override then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null,
+  ): Promise<TResult1 | TResult2> {
+    return this.result.then(({ data }) => data).then(onfulfilled, onrejected);
+  }
+
+  override catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | null,
+  ): Promise<T | TResult> {
+    return this.then(undefined, onrejected);
+  }
+
+  override finally(onfinally?: (() => void) | null): Promise<T> {
+    return this.then().finally(onfinally);
+  }
+}
@@ -0,0 +1,302 @@
+/**
+ * Client-side response cache for GravixLayer SDK
+ */
+import { createHash } from "crypto";
+import { mkdir, readFile, readdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { Logger } from "./logger";
+
+/**
+ * Storage behind the response cache. Values are JSON strings; `ttl` is in
+ * milliseconds and omitted for entries that never expire.
+ */
+export interface CacheStore {
+  get(key: string): Promise<string | undefined> | string | undefined;
+  set(key: string, value: string, ttl?: number): Promise<void> | void;
+  delete(key: string): Promise<void> | void;
+  clear?(): Promise<void> | void;
+}
+
+export interface ResponseCacheOptions {
+  /** Defaults to an in-memory LRU store. */
+  store?: CacheStore;
+  /** Lifetime of an entry in milliseconds. Defaults to no expiry. */
+  ttl?: number;
+  /** Capacity of the default in-memory store. Defaults to 1000. */
+  maxEntries?: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+interface StoredEntry {
+  value: string;
+  expiresAt?: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * In-memory store that evicts the least recently used entry when full.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, StoredEntry>();
+
+  constructor(private maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): string | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert so that the map stays ordered from least to most recent
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: string, ttl?: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: ttl === undefined ? undefined : Date.now() + ttl,
+    });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Store that keeps one JSON file per entry in `directory`, so cached
+ * responses survive between runs.
+ */
+export class FileCacheStore implements CacheStore {
+  constructor(private directory: string) {}
+
+  async get(key: string): Promise<string | undefined> {
+    let entry: StoredEntry;
+    try {
+      entry = JSON.parse(await readFile(this._path(key), "utf8"));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    }
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttl?: number): Promise<void> {
+    const entry: StoredEntry = {
+      value,
+      expiresAt: ttl === undefined ? undefined : Date.now() + ttl,
+    };
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this._path(key), JSON.stringify(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this._path(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    let names: string[];
+    try {
+      names = await readdir(this.directory);
+    } catch (error: any) {
+      if (error.code === "ENOENT") return;
+      throw error;
+    }
+    await Promise.all(
+      names
+        .filter((name) => name.endsWith(".json"))
+        .map((name) => rm(join(this.directory, name), { force: true })),
+    );
+  }
+
+  private _path(key: string): string {
+    return join(this.directory, `${key}.json`);
+  }
+}
+
+/**
+ * The subset of an ioredis client that `RedisCacheStore` uses. Clients
+ * with other call signatures can be wrapped to match.
+ */
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ...args: any[]): Promise<unknown>;
+  del(...keys: string[]): Promise<unknown>;
+  scan?(cursor: string | number, ...args: any[]): Promise<[string, string[]]>;
+}
+
+/**
+ * Store backed by Redis, so several processes share one cache. Keys are
+ * namespaced with `prefix`; expiry is left to Redis.
+ */
+export class RedisCacheStore implements CacheStore {
+  constructor(
+    private client: RedisLikeClient,
+    private prefix: string = "gravixlayer:",
+  ) {}
+
+  async get(key: string): Promise<string | undefined> {
+    return (await this.client.get(this.prefix + key)) ?? undefined;
+  }
+
+  async set(key: string, value: string, ttl?: number): Promise<void> {
+    if (ttl === undefined) {
+      await this.client.set(this.prefix + key, value);
+    } else {
+      await this.client.set(this.prefix + key, value, "PX", ttl);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+
+  /**
+   * Delete every key under the prefix. Needs a client with `scan`.
+   */
+  async clear(): Promise<void> {
+    if (!this.client.scan) return;
+    let cursor = "0";
+    do {
+      const [next, keys] = await this.client.scan(
+        cursor,
+        "MATCH",
+        `${this.prefix}*`,
+        "COUNT",
+        100,
+      );
+      if (keys.length) await this.client.del(...keys);
+      cursor = next;
+    } while (cursor !== "0");
+  }
+}
+
+/**
+ * JSON with object keys sorted, so equal params always give the same key.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Cache key of a request: a hash of the endpoint and its full body, which
+ * includes the model, the input and every parameter.
+ */
+export function cacheKey(endpoint: string, body: unknown): string {
+  return createHash("sha256")
+    .update(`${endpoint}\n${stableStringify(body)}`)
+    .digest("hex");
+}
+
+/**
+ * Whether a generation request always produces the same output, i.e. it
+ * asks for greedy sampling with a fixed seed.
+ */
+export function isDeterministic(body: {
+  temperature?: number | null;
+  seed?: number | null;
+}): boolean {
+  return (
+    body.temperature === 0 && body.seed !== undefined && body.seed !== null
+  );
+}
+
+/**
+ * Serves repeated requests from a `CacheStore` and counts hits and misses.
+ * Store failures are logged and treated as misses.
+ */
+export class ResponseCache {
+  readonly store: CacheStore;
+  private ttl?: number;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    options: ResponseCacheOptions = {},
+    private logger?: Logger,
+  ) {
+    this.store = options.store || new MemoryCacheStore(options.maxEntries);
+    this.ttl = options.ttl;
+  }
+
+  stats(): CacheStats {
+    return { hits: this.hits, misses: this.misses };
+  }
+
+  /**
+   * Remove every entry from the store and zero the stats.
+   */
+  async clear(): Promise<void> {
+    await this.store.clear?.();
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  /**
+   * Return the cached result for `endpoint` and `body`, or run `load` and
+   * cache what it returns.
+   */
+  async fetch<T>(
+    endpoint: string,
+    body: unknown,
+    load: () => Promise<T>,
+  ): Promise<T> {
+    const key = cacheKey(endpoint, body);
+
+    let cached: string | undefined;
+    try {
+      cached = await this.store.get(key);
+    } catch (error) {
+      this.logger?.warn("Response cache lookup failed", error);
+    }
+    if (cached !== undefined) {
+      this.hits += 1;
+      return JSON.parse(cached) as T;
+    }
+
+    this.misses += 1;
+    const result = await load();
+    try {
+      await this.store.set(key, JSON.stringify(result), this.ttl);
+    } catch (error) {
+      this.logger?.warn("Response cache write failed", error);
+    }
+    return result;
+  }
+}
@@ -1,5 +1,5 @@
 import { GravixLayer } from "./client";
-import { program } from "commander";
+import { InvalidArgumentError, program } from "commander";
 import { readFileSync, writeFileSync } from "fs";
 import { FilePurpose } from "./types/files";
 
@@ -97,6 +97,14 @@ interface VectorSearchTextOptions {
   filter?: string;
 }
 
+function parsePositiveInt(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new InvalidArgumentError("Must be a positive integer.");
+  }
+  return parsed;
+}
+
 async function handleChatCommands(options: ChatOptions) {
   if (options.mode === "chat" && !options.user) {
     console.error("Error: --user is required for chat mode");
@@ -189,7 +197,7 @@ async function waitForDeploymentReady(
 
   const checkStatus = async () => {
     try {
-      const deployments = await client.deployments.list();
+      const deployments = (await client.deployments.list()).deployments;
       const currentDeployment = deployments.find(
         (dep) => dep.deployment_id === deploymentId,
       );
@@ -317,7 +325,7 @@ async function handleDeploymentCreate(
           // Wait a moment and check if deployment was created
           setTimeout(async () => {
             try {
-              const deployments = await client.deployments.list();
+              const deployments = (await client.deployments.list()).deployments;
               const deploymentFound = deployments.find(
                 (dep) => dep.deployment_name === finalDeploymentName,
               );
@@ -369,7 +377,7 @@ async function handleDeploymentList(options: DeploymentListOptions) {
   });
 
   try {
-    const deployments = await client.deployments.list();
+    const deployments = (await client.deployments.list()).deployments;
 
     if (options.json) {
       console.log(JSON.stringify(deployments, null, 2));
@@ -1055,6 +1063,79 @@ vectorCmd
     }
   });
 
+// Import vectors
+vectorCmd
+  .command("import <indexId> <file>")
+  .description("Import vectors from a JSONL or CSV file")
+  .option("--api-key <key>", "API key")
+  .option("--model <model>", "Embedding model for rows with text")
+  .option("--format <format>", "File format (jsonl or csv)")
+  .option("--batch-size <size>", "Vectors per request", parsePositiveInt, 100)
+  .option("--concurrency <n>", "Requests in flight", parsePositiveInt, 2)
+  .option("--checkpoint <file>", "Checkpoint file to resume from")
+  .action(async (indexId, file, options) => {
+    const client = new GravixLayer({
+      apiKey: options.apiKey || process.env.GRAVIXLAYER_API_KEY,
+    });
+
+    try {
+      console.log(`Importing vectors from ${file} into index ${indexId}...`);
+      const result = await client.vectors.index(indexId).importFrom(file, {
+        format: options.format,
+        model: options.model,
+        batchSize: options.batchSize,
+        concurrency: options.concurrency,
+        checkpoint: options.checkpoint,
+        onProgress: (progress) =>
+          process.stdout.write(
+            `\rRows: ${progress.rows}, upserted: ${progress.upserted}, failed: ${progress.failed}`,
+          ),
+      });
+      console.log();
+      console.log("✅ Import completed!");
+      console.log(`Upserted: ${result.upserted}`);
+      console.log(`Failed: ${result.failed}`);
+      if (result.skipped) {
+        console.log(`Skipped (already imported): ${result.skipped}`);
+      }
+      for (const rowError of result.errors) {
+        console.log(`  Row ${rowError.row ?? "?"}: ${rowError.error}`);
+      }
+    } catch (error) {
+      console.log();
+      console.error(`❌ Error importing vectors: ${error}`);
+      if (options.checkpoint) {
+        console.error(
+          `Run the command again with --checkpoint ${options.checkpoint} to resume`,
+        );
+      }
+      process.exit(1);
+    }
+  });
+
+// Export vectors
+vectorCmd
+  .command("export <indexId> <file>")
+  .description("Export vectors to a JSONL or CSV file")
+  .option("--api-key <key>", "API key")
+  .option("--format <format>", "File format (jsonl or csv)")
+  .action(async (indexId, file, options) => {
+    const client = new GravixLayer({
+      apiKey: options.apiKey || process.env.GRAVIXLAYER_API_KEY,
+    });
+
+    try {
+      console.log(`Exporting vectors from index ${indexId} to ${file}...`);
+      const { exported } = await client.vectors
+        .index(indexId)
+        .exportTo(file, { format: options.format });
+      console.log(`✅ Exported ${exported} vector(s)`);
+    } catch (error) {
+      console.error(`❌ Error exporting vectors: ${error}`);
+      process.exit(1);
+    }
+  });
+
 // Memory command
 const memoryCmd = program
   .command("memory")
@@ -1,12 +1,34 @@
-import fetch from "node-fetch";
+import nodeFetch from "node-fetch";
+import { randomUUID } from "crypto";
 import {
   GravixLayerError,
-  GravixLayerAuthenticationError,
-  GravixLayerRateLimitError,
-  GravixLayerServerError,
-  GravixLayerBadRequestError,
   GravixLayerConnectionError,
+  GravixLayerTimeoutError,
+  makeAPIError,
 } from "./types/exceptions";
+import {
+  Fetch,
+  FetchRequestInit,
+  FetchResponse,
+  RequestOptions,
+  RetryPolicy,
+  Middleware,
+  MiddlewareRequest,
+  ServiceEndpoints,
+  ServiceName,
+} from "./types/transport";
+import { Logger, LogLevel, createLogger, resolveLogLevel } from "./logger";
+import { captureResponse, markCacheHit } from "./api-promise";
+import { onBodyDone } from "./streaming";
+import {
+  DEFAULT_RATE_LIMIT_KEY,
+  RateLimiter,
+  RateLimiterOptions,
+  RateLimits,
+  estimateTokens,
+} from "./rate-limits";
+import { UsageTracker, UsageTrackerOptions } from "./usage";
+import { ResponseCache, ResponseCacheOptions } from "./cache";
 import { ChatResource } from "./resources/chat/completions";
 import { Embeddings } from "./resources/embeddings";
 import { Completions } from "./resources/completions";
@@ -27,6 +49,76 @@ export interface GravixLayerOptions {
   userAgent?: string;
   organization?: string;
   project?: string;
+  /**
+   * Custom fetch implementation (undici, global `fetch`, a recording stub...).
+   * Defaults to node-fetch.
+   */
+  fetch?: Fetch;
+  /**
+   * Extra options merged into every fetch call, e.g. `{ agent }` for
+   * keep-alive or proxy settings.
+   */
+  fetchOptions?: Record<string, any>;
+  /** Controls which failures are retried and how long to wait between attempts. */
+  retryPolicy?: RetryPolicy;
+  /** Destination for SDK log messages. Defaults to `console`. */
+  logger?: Logger;
+  /**
+   * Minimum level that reaches the logger. Falls back to the
+   * `GRAVIXLAYER_LOG` environment variable, then `"warn"`.
+   */
+  logLevel?: LogLevel;
+  /** Hooks run around every HTTP call; more can be added with `use()`. */
+  middleware?: Middleware[];
+  /**
+   * Base URL per service, for staging or on-prem deployments. Services
+   * left out are derived from `baseURL`.
+   */
+  endpoints?: Partial<ServiceEndpoints>;
+  /**
+   * Client-side throttling per model, so batch jobs stay under their
+   * quota instead of running into 429 retries.
+   */
+  rateLimit?: RateLimiterOptions;
+  /** Price table and listener for the token usage kept in `usage`. */
+  usage?: UsageTrackerOptions;
+  /**
+   * Serve repeated embeddings, and chat or text completions with
+   * `temperature: 0` and a `seed`, from a cache instead of the API.
+   */
+  cache?: ResponseCacheOptions;
+}
+
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  backoff: (attempt) => Math.pow(2, attempt) * 1000,
+  jitter: 0.25,
+  maxDelay: 60000,
+  retryableStatuses: [429, 502, 503, 504],
+  shouldRetry: () => true,
+  idempotencyKeys: true,
+};
+
+/**
+ * Parse `Retry-After` (seconds or HTTP date) or `retry-after-ms` into
+ * milliseconds.
+ */
+function parseRetryAfter(
+  headers: FetchResponse["headers"],
+): number | undefined {
+  const retryAfterMs = headers.get("retry-after-ms");
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Math.max(0, Number(retryAfterMs));
+  }
+
+  const retryAfter = headers.get("retry-after");
+  if (!retryAfter) {
+    return undefined;
+  }
+  if (!isNaN(Number(retryAfter))) {
+    return Math.max(0, Number(retryAfter) * 1000);
+  }
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
 }
 
 /**
@@ -58,6 +150,20 @@ export class GravixLayer {
   private userAgent: string;
   private organization?: string;
   private project?: string;
+  private fetch: Fetch;
+  private fetchOptions: Record<string, any>;
+  private retryPolicy: Required<RetryPolicy>;
+  private middleware: Middleware[];
+  private endpoints: ServiceEndpoints;
+  private rateLimiter?: RateLimiter;
+
+  public logger: Logger;
+  /** Rate-limit headers from the latest response, per model. */
+  public rateLimits = new RateLimits();
+  /** Token usage and estimated spend of every call made by this client. */
+  public usage: UsageTracker;
+  /** Present when the `cache` option is set. */
+  public cache?: ResponseCache;
 
   public chat: ChatResource;
   public embeddings: Embeddings;
@@ -78,19 +184,52 @@ export class GravixLayer {
     this.organization = options.organization;
     this.project = options.project;
 
+    // Sibling services live next to /v1/inference unless overridden
+    const apiRoot = this.baseURL
+      .replace("/v1/inference", "/v1")
+      .replace(/\/$/, "");
+    this.endpoints = {
+      inference: this.baseURL,
+      agents: this.baseURL.replace("/v1/inference", "/v1/agents"),
+      deployments: this.baseURL.replace("/v1/inference", "/v1/deployments"),
+      files: this.baseURL.replace("/v1/inference", "/v1/files"),
+      vectors: this.baseURL.replace("/v1/inference", "/v1/vectors"),
+      accelerators: `${apiRoot}/accelerators`,
+      ...options.endpoints,
+    };
+
     // Validate URL scheme
-    if (
-      this.baseURL &&
-      !this.baseURL.startsWith("http://") &&
-      !this.baseURL.startsWith("https://")
-    ) {
-      throw new Error("Base URL must start with http:// or https:// protocol");
+    for (const endpoint of Object.values(this.endpoints)) {
+      if (
+        endpoint &&
+        !endpoint.startsWith("http://") &&
+        !endpoint.startsWith("https://")
+      ) {
+        throw new Error(
+          "Base URL must start with http:// or https:// protocol",
+        );
+      }
     }
 
     this.timeout = options.timeout || 60000; // 60 seconds in milliseconds
-    this.maxRetries = options.maxRetries || 3;
+    this.maxRetries = options.maxRetries ?? 3;
     this.customHeaders = options.headers || {};
     this.userAgent = options.userAgent || "gravixlayer-js/0.0.16";
+    this.fetch = options.fetch || (nodeFetch as unknown as Fetch);
+    this.fetchOptions = options.fetchOptions || {};
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy };
+    this.middleware = [...(options.middleware || [])];
+    if (options.rateLimit) {
+      this.rateLimiter = new RateLimiter(options.rateLimit);
+    }
+    this.logger = createLogger(
+      options.logger || console,
+      resolveLogLevel(options.logLevel),
+    );
+    this.usage = new UsageTracker(options.usage, this.logger);
+    if (options.cache) {
+      this.cache = new ResponseCache(options.cache, this.logger);
+    }
 
     if (!this.apiKey) {
       throw new Error(
@@ -144,7 +283,7 @@ export class GravixLayer {
     endpoint: string,
     data?: any,
     stream: boolean = false,
-    options: any = {},
+    options: RequestOptions = {},
   ): Promise<any> {
     // Handle full URLs (for vector database endpoints)
     let url: string;
@@ -154,8 +293,7 @@ export class GravixLayer {
     ) {
       url = endpoint;
     } else {
-      const baseUrl = this.baseURL.replace(/\/$/, "");
-      url = endpoint ? `${baseUrl}/${endpoint.replace(/^\//, "")}` : baseUrl;
+      url = this._serviceURL("inference", endpoint);
     }
 
     // Check if data is FormData
@@ -165,7 +303,7 @@ export class GravixLayer {
       data.constructor &&
       data.constructor.name === "FormData";
 
-    const headers = {
+    const headers: Record<string, string> = {
       Authorization: `Bearer ${this.apiKey}`,
       "User-Agent": this.userAgent,
       ...this.customHeaders,
@@ -177,98 +315,300 @@ export class GravixLayer {
       headers["Content-Type"] = "application/json";
     }
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    // One key for all attempts, so the server can drop duplicate writes
+    if (options.idempotencyKey) {
+      headers["Idempotency-Key"] = options.idempotencyKey;
+    } else if (
+      this.retryPolicy.idempotencyKeys &&
+      method.toUpperCase() !== "GET"
+    ) {
+      headers["Idempotency-Key"] = `gravixlayer-${randomUUID()}`;
+    }
 
-    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
-      try {
-        const requestOptions: any = {
-          method,
-          headers: headers as any,
-          signal: controller.signal,
-          ...options,
-        };
-
-        // Handle body based on data type
-        if (data) {
-          if (isFormData) {
-            requestOptions.body = data; // Use FormData directly
-          } else {
-            requestOptions.body = JSON.stringify(data); // JSON stringify for regular data
-          }
-        }
+    const timeout = options.timeout ?? this.timeout;
+    const maxRetries = options.maxRetries ?? this.maxRetries;
+    const { signal } = options;
+    const startedAt = Date.now();
+    const model =
+      !isFormData && typeof data?.model === "string" ? data.model : undefined;
+
+    for (let attempt = 0; ; attempt++) {
+      // Middleware may rewrite the URL, headers or body of each attempt
+      const request: MiddlewareRequest = {
+        method,
+        url,
+        headers: { ...headers },
+        body: data,
+        attempt,
+      };
+
+      if (this.rateLimiter && model) {
+        await this._throttle(this.rateLimiter, model, data, signal);
+      }
 
-        const response = await fetch(url, requestOptions);
+      if (signal?.aborted) {
+        throw await this._fail(
+          request,
+          new GravixLayerConnectionError("Request was aborted.", {
+            method,
+            url,
+          }),
+          startedAt,
+        );
+      }
 
-        clearTimeout(timeoutId);
+      for (const middleware of this.middleware) {
+        await middleware.onRequest?.(request);
+      }
 
-        if (response.ok) {
-          return response;
-        }
+      // Every attempt gets its own deadline, linked to the caller's signal
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeout);
+      const onAbort = () => controller.abort();
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      const requestOptions: FetchRequestInit = {
+        ...this.fetchOptions,
+        method: request.method,
+        headers: request.headers,
+        signal: controller.signal,
+      };
+
+      // Handle body based on data type
+      if (request.body) {
+        requestOptions.body = isFormData
+          ? request.body // Use FormData directly
+          : JSON.stringify(request.body);
+      }
 
-        if (response.status === 401) {
-          throw new GravixLayerAuthenticationError("Authentication failed.");
+      const attemptStartedAt = Date.now();
+      let response: FetchResponse;
+      try {
+        response = await this.fetch(request.url, requestOptions);
+      } catch (error) {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener("abort", onAbort);
+
+        const errorOptions = { method: request.method, url: request.url };
+        if (signal?.aborted) {
+          throw await this._fail(
+            request,
+            new GravixLayerConnectionError(
+              "Request was aborted.",
+              errorOptions,
+            ),
+            startedAt,
+          );
         }
 
-        if (response.status === 429) {
-          const retryAfter = response.headers.get("Retry-After");
-          console.warn(
-            `Rate limit exceeded. Retrying in ${retryAfter || Math.pow(2, attempt)}s...`,
+        if (
+          attempt < maxRetries &&
+          this.retryPolicy.shouldRetry({ method, url, attempt, error })
+        ) {
+          const delay = this._retryDelay(attempt);
+          this.logger.warn(
+            `Transient connection error, retrying in ${delay}ms...`,
           );
+          await this._sleep(delay, signal);
+          continue;
+        }
+
+        throw await this._fail(
+          request,
+          controller.signal.aborted
+            ? new GravixLayerTimeoutError(
+                `Request timed out after ${timeout}ms.`,
+                errorOptions,
+              )
+            : new GravixLayerConnectionError(
+                error instanceof Error ? error.message : String(error),
+                errorOptions,
+              ),
+          startedAt,
+        );
+      }
 
-          if (attempt < this.maxRetries) {
-            await this._sleep(
-              retryAfter
-                ? parseInt(retryAfter) * 1000
-                : Math.pow(2, attempt) * 1000,
+      clearTimeout(timeoutId);
+      // Once the attempt is over, stop forwarding the caller's signal. A
+      // stream body is read after this returns, so it stays linked until
+      // the body ends.
+      let keepListener = false;
+      try {
+        this.rateLimits.update(
+          model || DEFAULT_RATE_LIMIT_KEY,
+          response.headers,
+        );
+
+        const responseHeaders = this._headersToRecord(response.headers);
+        for (const middleware of this.middleware) {
+          await middleware.onResponse?.(request, {
+            status: response.status,
+            headers: responseHeaders,
+            durationMs: Date.now() - attemptStartedAt,
+          });
+        }
+
+        if (response.ok) {
+          captureResponse(response);
+          if (stream && signal) {
+            keepListener = true;
+            onBodyDone(response, () =>
+              signal.removeEventListener("abort", onAbort),
             );
-            continue;
           }
-          throw new GravixLayerRateLimitError(await response.text());
+          return response;
         }
 
         if (
-          [502, 503, 504].includes(response.status) &&
-          attempt < this.maxRetries
+          attempt < maxRetries &&
+          this.retryPolicy.retryableStatuses.includes(response.status) &&
+          this.retryPolicy.shouldRetry({
+            method,
+            url,
+            attempt,
+            status: response.status,
+          })
         ) {
-          console.warn(`Server error: ${response.status}. Retrying...`);
-          await this._sleep(Math.pow(2, attempt) * 1000);
+          const delay = this._retryDelay(attempt, response.headers);
+          this.logger.warn(
+            response.status === 429
+              ? `Rate limit exceeded. Retrying in ${delay}ms...`
+              : `Server error: ${response.status}. Retrying in ${delay}ms...`,
+          );
+          await this._sleep(delay, signal);
           continue;
         }
 
-        if (response.status >= 400 && response.status < 500) {
-          throw new GravixLayerBadRequestError(await response.text());
-        }
+        throw await this._fail(
+          request,
+          makeAPIError(response.status, await response.text(), {
+            headers: responseHeaders,
+            requestId:
+              responseHeaders["x-request-id"] || responseHeaders["request-id"],
+            method: request.method,
+            url: request.url,
+          }),
+          startedAt,
+        );
+      } finally {
+        if (!keepListener) signal?.removeEventListener("abort", onAbort);
+      }
+    }
+  }
 
-        if (response.status >= 500 && response.status < 600) {
-          throw new GravixLayerServerError(await response.text());
-        }
+  /**
+   * Resolve a path against the configured base URL of a service.
+   */
+  _serviceURL(service: ServiceName, path: string = ""): string {
+    const baseUrl = this.endpoints[service].replace(/\/$/, "");
+    return path ? `${baseUrl}/${path.replace(/^\//, "")}` : baseUrl;
+  }
 
-        throw new GravixLayerError(
-          `HTTP ${response.status}: ${response.statusText}`,
-        );
-      } catch (error) {
-        clearTimeout(timeoutId);
+  /**
+   * Run `load` through the response cache, if one is configured and the
+   * call did not opt out with `cache: false`.
+   */
+  async _cached<T>(
+    path: string,
+    body: any,
+    requestOptions: RequestOptions | undefined,
+    load: () => Promise<T>,
+  ): Promise<T> {
+    if (!this.cache || requestOptions?.cache === false) return load();
+
+    let loaded = false;
+    const result = await this.cache.fetch(
+      this._serviceURL("inference", path),
+      body,
+      () => {
+        loaded = true;
+        return load();
+      },
+    );
+    if (!loaded) markCacheHit();
+    return result;
+  }
 
-        if (error instanceof GravixLayerError) {
-          throw error;
-        }
+  /**
+   * Register middleware that observes or rewrites every request.
+   * Middleware runs in registration order.
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
 
-        if (attempt === this.maxRetries) {
-          throw new GravixLayerConnectionError(
-            error instanceof Error ? error.message : String(error),
-          );
-        }
+  private async _fail(
+    request: MiddlewareRequest,
+    error: GravixLayerError,
+    startedAt: number,
+  ): Promise<GravixLayerError> {
+    for (const middleware of this.middleware) {
+      await middleware.onError?.(request, error, Date.now() - startedAt);
+    }
+    return error;
+  }
 
-        console.warn("Transient connection error, retrying...");
-        await this._sleep(Math.pow(2, attempt) * 1000);
-      }
+  /**
+   * Delay before the next attempt: the server's Retry-After when present,
+   * otherwise the policy's backoff with jitter, capped at maxDelay.
+   */
+  private _retryDelay(
+    attempt: number,
+    headers?: FetchResponse["headers"],
+  ): number {
+    const { backoff, jitter, maxDelay } = this.retryPolicy;
+
+    const retryAfter = headers && parseRetryAfter(headers);
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, maxDelay);
     }
 
-    throw new GravixLayerError("Failed to complete request.");
+    const delay = Math.min(backoff(attempt), maxDelay);
+    return Math.round(delay * (1 - jitter * Math.random()));
+  }
+
+  private _headersToRecord(
+    headers: FetchResponse["headers"],
+  ): Record<string, string> {
+    const record: Record<string, string> = {};
+    headers.forEach?.((value, key) => {
+      record[key.toLowerCase()] = value;
+    });
+    return record;
   }
 
-  private _sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  /**
+   * Wait until both the server-reported quota and the client-side buckets
+   * allow another request for `model`.
+   */
+  private async _throttle(
+    limiter: RateLimiter,
+    model: string,
+    data: any,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const tokens = estimateTokens(data);
+    while (!signal?.aborted) {
+      const wait =
+        this.rateLimits.waitTime(model) || limiter.reserve(model, tokens);
+      if (wait <= 0) return;
+
+      this.logger.debug(`Throttling ${model} for ${wait}ms`);
+      await this._sleep(wait, signal);
+    }
+  }
+
+  _sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    // Wakes early on abort; the retry loop then reports the cancellation
+    return new Promise((resolve) => {
+      const timer = setTimeout(done, ms);
+      signal?.addEventListener("abort", done, { once: true });
+      function done() {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", done);
+        resolve();
+      }
+    });
   }
 }
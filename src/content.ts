@@ -0,0 +1,122 @@
+/**
+ * Builders for multimodal chat message content parts
+ */
+import { readFileSync } from "fs";
+import { extname } from "path";
+import {
+  ChatCompletionContentPartImage,
+  ChatCompletionContentPartInputAudio,
+  ChatCompletionContentPartText,
+} from "./types/chat";
+import { GravixLayerBadRequestError } from "./types/exceptions";
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+};
+
+const AUDIO_FORMATS: Record<string, "wav" | "mp3"> = {
+  ".wav": "wav",
+  ".mp3": "mp3",
+};
+
+function readLocalFile(path: string): Buffer {
+  try {
+    return readFileSync(path);
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      throw new GravixLayerBadRequestError(`File not found: ${path}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Detect the image type from its leading bytes.
+ */
+function sniffImageType(data: Buffer): string | undefined {
+  if (data.subarray(0, 8).equals(Buffer.from("89504e470d0a1a0a", "hex"))) {
+    return "image/png";
+  }
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (data.subarray(0, 4).toString("ascii") === "GIF8") {
+    return "image/gif";
+  }
+  if (
+    data.subarray(0, 4).toString("ascii") === "RIFF" &&
+    data.subarray(8, 12).toString("ascii") === "WEBP"
+  ) {
+    return "image/webp";
+  }
+  return undefined;
+}
+
+export function textPart(text: string): ChatCompletionContentPartText {
+  return { type: "text", text };
+}
+
+/**
+ * Build an image part from a URL, a local file path or raw bytes. Files and
+ * buffers are inlined as base64 `data:` URLs.
+ */
+export function imagePart(
+  source: string | Buffer,
+  options: {
+    detail?: "auto" | "low" | "high";
+    /** MIME type of `source`; detected from the extension or bytes if omitted. */
+    mimeType?: string;
+  } = {},
+): ChatCompletionContentPartImage {
+  let url: string;
+  if (typeof source === "string" && /^(https?:|data:)/i.test(source)) {
+    url = source;
+  } else {
+    const data = typeof source === "string" ? readLocalFile(source) : source;
+    const mimeType =
+      options.mimeType ||
+      (typeof source === "string"
+        ? IMAGE_MIME_TYPES[extname(source).toLowerCase()]
+        : undefined) ||
+      sniffImageType(data);
+    if (!mimeType) {
+      throw new GravixLayerBadRequestError(
+        "Could not detect the image type; pass `mimeType`",
+      );
+    }
+    url = `data:${mimeType};base64,${data.toString("base64")}`;
+  }
+
+  const image: ChatCompletionContentPartImage["image_url"] = { url };
+  if (options.detail) image.detail = options.detail;
+  return { type: "image_url", image_url: image };
+}
+
+/**
+ * Build an audio part from a local `.wav`/`.mp3` file or raw bytes.
+ */
+export function audioPart(
+  source: string | Buffer,
+  format?: "wav" | "mp3",
+): ChatCompletionContentPartInputAudio {
+  const resolvedFormat =
+    format ||
+    (typeof source === "string"
+      ? AUDIO_FORMATS[extname(source).toLowerCase()]
+      : undefined);
+  if (!resolvedFormat) {
+    throw new GravixLayerBadRequestError(
+      "Audio format must be wav or mp3; pass `format`",
+    );
+  }
+
+  const data = typeof source === "string" ? readLocalFile(source) : source;
+  return {
+    type: "input_audio",
+    input_audio: { data: data.toString("base64"), format: resolvedFormat },
+  };
+}
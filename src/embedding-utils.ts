@@ -0,0 +1,128 @@
+/**
+ * Decoding and vector math for embeddings
+ */
+import { GravixLayerBadRequestError } from "./types/exceptions";
+import { SupportedMetric } from "./types/vectors";
+
+export type EmbeddingVector = number[] | Float32Array;
+
+/**
+ * Decode a `base64` embedding: little-endian 32-bit floats.
+ */
+export function decodeEmbedding(data: string): Float32Array {
+  const bytes = Buffer.from(data, "base64");
+  if (bytes.byteLength % 4 !== 0) {
+    throw new GravixLayerBadRequestError(
+      `Base64 embedding has ${bytes.byteLength} bytes, not a multiple of 4`,
+    );
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const vector = new Float32Array(bytes.byteLength / 4);
+  for (let i = 0; i < vector.length; i++) {
+    vector[i] = view.getFloat32(i * 4, true);
+  }
+  return vector;
+}
+
+function checkDimensions(a: EmbeddingVector, b: EmbeddingVector): void {
+  if (a.length !== b.length) {
+    throw new GravixLayerBadRequestError(
+      `Vectors have different dimensions: ${a.length} and ${b.length}`,
+    );
+  }
+}
+
+export function dotProduct(a: EmbeddingVector, b: EmbeddingVector): number {
+  checkDimensions(a, b);
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function norm(vector: EmbeddingVector): number {
+  let sum = 0;
+  for (let i = 0; i < vector.length; i++) sum += vector[i] * vector[i];
+  return Math.sqrt(sum);
+}
+
+/**
+ * Cosine of the angle between `a` and `b`; 0 when either is all zeros.
+ */
+export function cosineSimilarity(
+  a: EmbeddingVector,
+  b: EmbeddingVector,
+): number {
+  const denominator = norm(a) * norm(b);
+  return denominator === 0 ? 0 : dotProduct(a, b) / denominator;
+}
+
+export function euclideanDistance(
+  a: EmbeddingVector,
+  b: EmbeddingVector,
+): number {
+  checkDimensions(a, b);
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+}
+
+/**
+ * Score `a` against `b` the way an index with `metric` does. Higher is
+ * closer for `cosine` and `dot_product`; `euclidean` is a distance, so
+ * lower is closer.
+ */
+export function vectorScore(
+  metric: SupportedMetric,
+  a: EmbeddingVector,
+  b: EmbeddingVector,
+): number {
+  switch (metric) {
+    case "cosine":
+      return cosineSimilarity(a, b);
+    case "dot_product":
+      return dotProduct(a, b);
+    case "euclidean":
+      return euclideanDistance(a, b);
+    default:
+      throw new GravixLayerBadRequestError(`Unsupported metric: ${metric}`);
+  }
+}
+
+/**
+ * Scale `vector` to unit length, keeping its array type. An all-zero
+ * vector is returned as a copy.
+ */
+export function l2Normalize<T extends EmbeddingVector>(vector: T): T {
+  const length = norm(vector);
+  const result = (
+    vector instanceof Float32Array
+      ? new Float32Array(vector.length)
+      : new Array<number>(vector.length)
+  ) as T;
+  for (let i = 0; i < vector.length; i++) {
+    result[i] = length === 0 ? vector[i] : vector[i] / length;
+  }
+  return result;
+}
+
+/**
+ * Keep the first `dimensions` values and renormalize, for models trained
+ * with Matryoshka representation learning.
+ */
+export function truncateEmbedding<T extends EmbeddingVector>(
+  vector: T,
+  dimensions: number,
+): T {
+  if (!Number.isInteger(dimensions) || dimensions < 1) {
+    throw new GravixLayerBadRequestError(
+      "dimensions must be a positive integer",
+    );
+  }
+  if (dimensions > vector.length) {
+    throw new GravixLayerBadRequestError(
+      `Cannot truncate a ${vector.length}-dimensional embedding to ${dimensions} dimensions`,
+    );
+  }
+  return l2Normalize(vector.slice(0, dimensions) as T);
+}
@@ -0,0 +1,156 @@
+/**
+ * Metadata filter builder and validation for vector search
+ */
+import { FieldOperators, FilterValue, MetadataFilter } from "./types/vectors";
+import { GravixLayerBadRequestError } from "./types/exceptions";
+
+type RangeValue = number | string | Date;
+
+/**
+ * Builders for `MetadataFilter` conditions.
+ *
+ * @example
+ * Filter.and(
+ *   Filter.eq("user_id", "u-1"),
+ *   Filter.in("memory_type", ["factual", "episodic"]),
+ *   Filter.gte("created_at", new Date("2024-01-01")),
+ * )
+ */
+export const Filter = {
+  eq: (field: string, value: FilterValue): MetadataFilter =>
+    condition(field, { $eq: value }),
+  ne: (field: string, value: FilterValue): MetadataFilter =>
+    condition(field, { $ne: value }),
+  in: (field: string, values: FilterValue[]): MetadataFilter =>
+    condition(field, { $in: values }),
+  nin: (field: string, values: FilterValue[]): MetadataFilter =>
+    condition(field, { $nin: values }),
+  gt: (field: string, value: RangeValue): MetadataFilter =>
+    condition(field, { $gt: value }),
+  gte: (field: string, value: RangeValue): MetadataFilter =>
+    condition(field, { $gte: value }),
+  lt: (field: string, value: RangeValue): MetadataFilter =>
+    condition(field, { $lt: value }),
+  lte: (field: string, value: RangeValue): MetadataFilter =>
+    condition(field, { $lte: value }),
+  exists: (field: string, exists: boolean = true): MetadataFilter =>
+    condition(field, { $exists: exists }),
+  and: (...filters: MetadataFilter[]): MetadataFilter => ({ $and: filters }),
+  or: (...filters: MetadataFilter[]): MetadataFilter => ({ $or: filters }),
+};
+
+function condition(field: string, operators: FieldOperators): MetadataFilter {
+  return { [field]: operators };
+}
+
+const COMPARISON_OPERATORS = new Set(["$eq", "$ne"]);
+const LIST_OPERATORS = new Set(["$in", "$nin"]);
+const RANGE_OPERATORS = new Set(["$gt", "$gte", "$lt", "$lte"]);
+
+function invalid(path: string, message: string): GravixLayerBadRequestError {
+  return new GravixLayerBadRequestError(
+    `Invalid filter at ${path || "top level"}: ${message}`,
+  );
+}
+
+function isScalar(value: unknown): value is FilterValue {
+  return (
+    typeof value === "string" ||
+    typeof value === "boolean" ||
+    (typeof value === "number" && Number.isFinite(value)) ||
+    value instanceof Date
+  );
+}
+
+function serializeValue(value: FilterValue, path: string): unknown {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) throw invalid(path, "invalid date");
+    return value.toISOString();
+  }
+  return value;
+}
+
+/**
+ * Validate `filter` and convert it to the format the API expects: dates
+ * become ISO strings and operators are checked against their operands.
+ * Throws `GravixLayerBadRequestError` naming the offending path.
+ */
+export function serializeFilter(
+  filter: MetadataFilter,
+  path: string = "",
+): Record<string, any> {
+  if (!filter || typeof filter !== "object" || Array.isArray(filter)) {
+    throw invalid(path, "expected an object");
+  }
+
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(filter)) {
+    if (value === undefined) continue;
+    const keyPath = path ? `${path}.${key}` : key;
+
+    if (key === "$and" || key === "$or") {
+      if (!Array.isArray(value) || value.length === 0) {
+        throw invalid(keyPath, "expected a non-empty array of filters");
+      }
+      result[key] = value.map((item, index) =>
+        serializeFilter(item, `${keyPath}[${index}]`),
+      );
+    } else if (key.startsWith("$")) {
+      throw invalid(keyPath, `unknown operator ${key}`);
+    } else {
+      result[key] = serializeCondition(value, keyPath);
+    }
+  }
+  return result;
+}
+
+function serializeCondition(value: unknown, path: string): unknown {
+  if (isScalar(value)) return serializeValue(value, path);
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw invalid(path, "expected a value or an object of operators");
+  }
+
+  const entries = Object.entries(value).filter(
+    ([, operand]) => operand !== undefined,
+  );
+  if (entries.length === 0) throw invalid(path, "no operators given");
+
+  const result: Record<string, unknown> = {};
+  for (const [operator, operand] of entries) {
+    const operatorPath = `${path}.${operator}`;
+    if (COMPARISON_OPERATORS.has(operator)) {
+      if (!isScalar(operand)) {
+        throw invalid(
+          operatorPath,
+          "expected a string, number, boolean or date",
+        );
+      }
+      result[operator] = serializeValue(operand, operatorPath);
+    } else if (LIST_OPERATORS.has(operator)) {
+      if (!Array.isArray(operand) || !operand.every(isScalar)) {
+        throw invalid(operatorPath, "expected an array of values");
+      }
+      result[operator] = operand.map((item) =>
+        serializeValue(item, operatorPath),
+      );
+    } else if (RANGE_OPERATORS.has(operator)) {
+      if (typeof operand === "boolean" || !isScalar(operand)) {
+        throw invalid(operatorPath, "expected a number, string or date");
+      }
+      result[operator] = serializeValue(operand, operatorPath);
+    } else if (operator === "$exists") {
+      if (typeof operand !== "boolean") {
+        throw invalid(operatorPath, "expected a boolean");
+      }
+      result[operator] = operand;
+    } else if (operator.startsWith("$")) {
+      throw invalid(operatorPath, `unknown operator ${operator}`);
+    } else {
+      throw invalid(
+        path,
+        "nested objects are not supported; use operators such as $eq",
+      );
+    }
+  }
+  return result;
+}
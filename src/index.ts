@@ -6,16 +6,124 @@ export { GravixLayer, type GravixLayerOptions } from "./client";
 export { Memory } from "./resources/memory/memory";
 export { SyncMemory } from "./resources/memory/sync-memory";
 export { AsyncGravixLayer, type AsyncGravixLayerOptions } from "./async-client";
+export {
+  ChatCompletionStream,
+  type ChatCompletionStreamEvents,
+} from "./resources/chat/stream";
+export {
+  ChatCompletionRunner,
+  type ChatCompletionRunnerEvents,
+  type RunnableTool,
+  type RunToolsParams,
+} from "./resources/chat/runner";
+export {
+  schemaTool,
+  schemaResponseFormat,
+  zodSchema,
+  jsonSchema,
+  zodToJSONSchema,
+  type JSONSchema,
+  type Schema,
+  type SchemaInput,
+  type SchemaTool,
+  type SchemaResponseFormat,
+  type ZodLikeSchema,
+} from "./schema";
+export { textPart, imagePart, audioPart } from "./content";
+export {
+  RateLimits,
+  RateLimiter,
+  type RateLimitState,
+  type RateLimiterOptions,
+} from "./rate-limits";
+export {
+  UsageTracker,
+  type ModelPrice,
+  type PriceTable,
+  type UsageEvent,
+  type UsageSnapshot,
+  type UsageSource,
+  type UsageTotals,
+  type UsageTrackerOptions,
+} from "./usage";
+export {
+  ResponseCache,
+  MemoryCacheStore,
+  FileCacheStore,
+  RedisCacheStore,
+  type CacheStore,
+  type RedisLikeClient,
+  type CacheStats,
+  type ResponseCacheOptions,
+} from "./cache";
+export {
+  decodeEmbedding,
+  dotProduct,
+  cosineSimilarity,
+  euclideanDistance,
+  vectorScore,
+  l2Normalize,
+  truncateEmbedding,
+  type EmbeddingVector,
+} from "./embedding-utils";
+export { APIPromise, type APIResponse } from "./api-promise";
+export { Page, PagePromise, type ListPage } from "./pagination";
+export { Filter, serializeFilter } from "./filters";
+export {
+  BM25Index,
+  tokenize,
+  reciprocalRankFusion,
+  weightedFusion,
+  type BM25Document,
+  type BM25Options,
+  type ScoredId,
+} from "./search";
+export type { VectorSource } from "./resources/vectors/transfer";
+export { SSEDecoder, type ServerSentEvent } from "./streaming";
+
+// Logging
+export type { Logger, LogLevel } from "./logger";
+
+// Transport types
+export type {
+  Fetch,
+  FetchRequestInit,
+  FetchResponse,
+  RequestOptions,
+  RetryContext,
+  RetryPolicy,
+  Middleware,
+  MiddlewareRequest,
+  MiddlewareResponse,
+  ServiceEndpoints,
+  ServiceName,
+} from "./types/transport";
 
 // Chat types
 // Exporting types for better developer experience
 export type {
   ChatCompletion,
   ChatCompletionMessage,
+  ChatCompletionMessageParam,
   ChatCompletionChoice,
   ChatCompletionUsage,
   ChatCompletionDelta,
   ChatCompletionCreateParams,
+  ChatCompletionContentPart,
+  ChatCompletionContentPartText,
+  ChatCompletionContentPartImage,
+  ChatCompletionContentPartInputAudio,
+  ChatCompletionLogprobs,
+  ChatCompletionTokenLogprob,
+  ChatCompletionTopLogprob,
+  ChatCompletionTool,
+  ResponseFormat,
+  ResponseFormatJSONSchema,
+  ParsedChatCompletion,
+  ParsedChatCompletionChoice,
+  ParsedChatCompletionMessage,
+  ParsedFunctionCall,
+  ParsedToolCall,
   FunctionCall,
   ToolCall,
 } from "./types/chat";
@@ -26,6 +134,8 @@ export type {
   EmbeddingObject,
   EmbeddingUsage,
   EmbeddingCreateParams,
+  EmbeddingCreateManyOptions,
+  EmbeddingBatchProgress,
 } from "./types/embeddings";
 
 // Completions types
@@ -70,6 +180,22 @@ export type {
   VectorSearchRequest,
   TextSearchRequest,
   UpdateVectorRequest,
+  MetadataFilter,
+  FieldOperators,
+  FilterValue,
+  VectorRecord,
+  VectorFileFormat,
+  VectorImportOptions,
+  VectorImportProgress,
+  VectorImportRowError,
+  VectorImportResult,
+  VectorExportOptions,
+  HybridSearchOptions,
+  HybridRerankOptions,
+  HybridSearchHit,
+  HybridSearchResponse,
+  VectorMigrationOptions,
+  VectorMigrationResult,
   SupportedMetric,
   SupportedVectorType,
   SupportedIndexType,
@@ -129,7 +255,15 @@ export {
   GravixLayerRateLimitError,
   GravixLayerServerError,
   GravixLayerBadRequestError,
+  GravixLayerPermissionDeniedError,
+  GravixLayerNotFoundError,
+  GravixLayerConflictError,
+  GravixLayerUnprocessableEntityError,
   GravixLayerConnectionError,
+  GravixLayerTimeoutError,
+  GravixLayerValidationError,
+  type GravixLayerErrorOptions,
+  type ValidationIssue,
 } from "./types/exceptions";
 
 // Default export for convenience
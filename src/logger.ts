@@ -0,0 +1,53 @@
+/**
+ * Leveled logging for GravixLayer SDK
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error" | "off";
+
+export interface Logger {
+  debug(message: string, ...args: any[]): void;
+  info(message: string, ...args: any[]): void;
+  warn(message: string, ...args: any[]): void;
+  error(message: string, ...args: any[]): void;
+}
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  off: 50,
+};
+
+export const DEFAULT_LOG_LEVEL: LogLevel = "warn";
+
+/**
+ * Resolve the effective level: explicit option, then the GRAVIXLAYER_LOG
+ * environment variable, then the default. Unknown values fall back to the
+ * default.
+ */
+export function resolveLogLevel(level?: string): LogLevel {
+  const candidate = (level || process.env.GRAVIXLAYER_LOG || "").toLowerCase();
+  return candidate in LOG_LEVELS ? (candidate as LogLevel) : DEFAULT_LOG_LEVEL;
+}
+
+/**
+ * Wrap a logger so that messages below `level` are dropped.
+ */
+export function createLogger(logger: Logger, level: LogLevel): Logger {
+  const threshold = LOG_LEVELS[level];
+  const forward =
+    (method: keyof Logger) =>
+    (message: string, ...args: any[]) => {
+      if (LOG_LEVELS[method] >= threshold) {
+        logger[method](message, ...args);
+      }
+    };
+
+  return {
+    debug: forward("debug"),
+    info: forward("info"),
+    warn: forward("warn"),
+    error: forward("error"),
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * Pagination for list endpoints
+ */
+import { APIPromise } from "./api-promise";
+import { GravixLayerError } from "./types/exceptions";
+
+/**
+ * A page of `T`, carrying the fields of the list response `R` it came
+ * from. Iterating a page with `for await` walks every item on this page
+ * and all the pages after it.
+ */
+export class Page<T, R extends object = {}> implements AsyncIterable<T> {
+  constructor(
+    private items: T[],
+    private fetchNext?: () => PagePromise<T, R>,
+  ) {}
+
+  /** Items on this page only. */
+  getPaginatedItems(): T[] {
+    return this.items;
+  }
+
+  hasNextPage(): boolean {
+    return this.fetchNext !== undefined;
+  }
+
+  getNextPage(): PagePromise<T, R> {
+    if (!this.fetchNext) {
+      throw new GravixLayerError(
+        "No next page; check hasNextPage() before calling getNextPage()",
+      );
+    }
+    return this.fetchNext();
+  }
+
+  /**
+   * This page followed by every later page, fetched one at a time.
+   */
+  async *iterPages(): AsyncGenerator<ListPage<T, R>> {
+    let page = this as unknown as ListPage<T, R>;
+    yield page;
+    while (page.hasNextPage()) {
+      page = await page.getNextPage();
+      yield page;
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    for await (const page of this.iterPages()) {
+      yield* page.getPaginatedItems();
+    }
+  }
+}
+
+export type ListPage<T, R extends object = {}> = Page<T, R> & R;
+
+/**
+ * Await it for the first page, or iterate it with `for await` to walk
+ * every item across all pages.
+ */
+export class PagePromise<T, R extends object = {}>
+  extends APIPromise<ListPage<T, R>>
+  implements AsyncIterable<T>
+{
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    yield* await this;
+  }
+}
+
+/**
+ * Build a `PagePromise` that fetches pages with `fetchPage`. `nextParams`
+ * returns the params of the page after `response`, or undefined on the
+ * last page.
+ */
+export function paginate<T, R extends object, P>(
+  params: P,
+  fetchPage: (params: P) => Promise<R>,
+  items: (response: R) => T[],
+  nextParams: (response: R, params: P) => P | undefined = () => undefined,
+): PagePromise<T, R> {
+  const load = (pageParams: P): PagePromise<T, R> =>
+    new PagePromise(async () => {
+      const response = await fetchPage(pageParams);
+      const next = nextParams(response, pageParams);
+      const page = new Page<T, R>(
+        items(response),
+        next === undefined ? undefined : () => load(next),
+      );
+      return Object.assign(page, response);
+    });
+  return load(params);
+}
+
+/**
+ * Offset of the page after one that started at `offset` and returned
+ * `count` items, or undefined when it was the last one. The end is known
+ * from `hasMore` or `total` when the server sends them, and otherwise
+ * from a page shorter than `limit`.
+ */
+export function nextOffset(
+  offset: number,
+  count: number,
+  end: { limit?: number; total?: number; hasMore?: boolean },
+): number | undefined {
+  let more: boolean;
+  if (count === 0) {
+    more = false;
+  } else if (typeof end.hasMore === "boolean") {
+    more = end.hasMore;
+  } else if (typeof end.total === "number") {
+    more = offset + count < end.total;
+  } else {
+    more = typeof end.limit === "number" && count >= end.limit;
+  }
+  return more ? offset + count : undefined;
+}
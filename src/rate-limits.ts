@@ -0,0 +1,207 @@
+/**
+ * Rate-limit tracking and client-side throttling for GravixLayer SDK
+ */
+
+export interface RateLimitState {
+  limitRequests?: number;
+  limitTokens?: number;
+  remainingRequests?: number;
+  remainingTokens?: number;
+  /** Epoch milliseconds at which the request quota resets. */
+  resetRequestsAt?: number;
+  /** Epoch milliseconds at which the token quota resets. */
+  resetTokensAt?: number;
+  /** Epoch milliseconds of the response the state was read from. */
+  updatedAt: number;
+}
+
+export interface RateLimiterOptions {
+  requestsPerMinute?: number;
+  /** Budget for estimated prompt tokens plus `max_tokens`. */
+  tokensPerMinute?: number;
+}
+
+/** Key used for requests that do not name a model. */
+export const DEFAULT_RATE_LIMIT_KEY = "default";
+
+/**
+ * Parse a reset value such as `"1s"`, `"6m0s"`, `"250ms"` or a bare
+ * number of seconds into milliseconds.
+ */
+export function parseResetDuration(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return parseFloat(trimmed) * 1000;
+
+  const units: Record<string, number> = {
+    h: 3600000,
+    m: 60000,
+    s: 1000,
+    ms: 1,
+  };
+  const pattern = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+  let total = 0;
+  let consumed = 0;
+  for (const match of trimmed.matchAll(pattern)) {
+    total += parseFloat(match[1]) * units[match[2]];
+    consumed += match[0].length;
+  }
+  return consumed > 0 && consumed === trimmed.length ? total : undefined;
+}
+
+/**
+ * Read the `x-ratelimit-*` headers of a response, if it has any.
+ */
+export function parseRateLimitHeaders(
+  headers: { get(name: string): string | null },
+  now: number = Date.now(),
+): RateLimitState | undefined {
+  const number = (name: string) => {
+    const value = headers.get(name);
+    const parsed = value === null ? NaN : Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  };
+  const resetAt = (name: string) => {
+    const value = headers.get(name);
+    const duration = value === null ? undefined : parseResetDuration(value);
+    return duration === undefined ? undefined : now + duration;
+  };
+
+  const state: RateLimitState = {
+    limitRequests: number("x-ratelimit-limit-requests"),
+    limitTokens: number("x-ratelimit-limit-tokens"),
+    remainingRequests: number("x-ratelimit-remaining-requests"),
+    remainingTokens: number("x-ratelimit-remaining-tokens"),
+    resetRequestsAt: resetAt("x-ratelimit-reset-requests"),
+    resetTokensAt: resetAt("x-ratelimit-reset-tokens"),
+    updatedAt: now,
+  };
+  const found = Object.entries(state).some(
+    ([key, value]) => key !== "updatedAt" && value !== undefined,
+  );
+  return found ? state : undefined;
+}
+
+/**
+ * Latest rate-limit state reported by the server, per model.
+ */
+export class RateLimits {
+  private states = new Map<string, RateLimitState>();
+
+  get(model: string = DEFAULT_RATE_LIMIT_KEY): RateLimitState | undefined {
+    return this.states.get(model);
+  }
+
+  all(): Record<string, RateLimitState> {
+    return Object.fromEntries(this.states);
+  }
+
+  update(
+    model: string,
+    headers: { get(name: string): string | null },
+    now: number = Date.now(),
+  ): void {
+    const state = parseRateLimitHeaders(headers, now);
+    if (state) this.states.set(model, state);
+  }
+
+  /**
+   * Milliseconds until the server-side quota for `model` resets, when the
+   * last response said it is used up.
+   */
+  waitTime(model: string, now: number = Date.now()): number {
+    const state = this.states.get(model);
+    if (!state) return 0;
+
+    let wait = 0;
+    if (state.remainingRequests === 0 && state.resetRequestsAt) {
+      wait = Math.max(wait, state.resetRequestsAt - now);
+    }
+    if (state.remainingTokens === 0 && state.resetTokensAt) {
+      wait = Math.max(wait, state.resetTokensAt - now);
+    }
+    return wait;
+  }
+}
+
+interface Bucket {
+  requests: number;
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token buckets per model, refilled continuously at the configured
+ * per-minute rates.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(private options: RateLimiterOptions) {}
+
+  /**
+   * Take one request and `tokens` tokens from the bucket of `model` and
+   * return 0, or return how many milliseconds to wait before trying again.
+   * Requests larger than a whole minute of tokens go through once the
+   * bucket is full.
+   */
+  reserve(model: string, tokens: number, now: number = Date.now()): number {
+    const { requestsPerMinute, tokensPerMinute } = this.options;
+    const bucket = this._refill(model, now);
+
+    const requestWait =
+      requestsPerMinute && bucket.requests < 1
+        ? ((1 - bucket.requests) * 60000) / requestsPerMinute
+        : 0;
+    const needed = tokensPerMinute ? Math.min(tokens, tokensPerMinute) : 0;
+    const tokenWait =
+      tokensPerMinute && bucket.tokens < needed
+        ? ((needed - bucket.tokens) * 60000) / tokensPerMinute
+        : 0;
+
+    const wait = Math.ceil(Math.max(requestWait, tokenWait));
+    if (wait > 0) return wait;
+
+    bucket.requests -= 1;
+    bucket.tokens -= needed;
+    return 0;
+  }
+
+  private _refill(model: string, now: number): Bucket {
+    const { requestsPerMinute = 0, tokensPerMinute = 0 } = this.options;
+    let bucket = this.buckets.get(model);
+    if (!bucket) {
+      bucket = {
+        requests: requestsPerMinute,
+        tokens: tokensPerMinute,
+        updatedAt: now,
+      };
+      this.buckets.set(model, bucket);
+      return bucket;
+    }
+
+    const elapsed = Math.max(0, now - bucket.updatedAt);
+    bucket.requests = Math.min(
+      requestsPerMinute,
+      bucket.requests + (elapsed * requestsPerMinute) / 60000,
+    );
+    bucket.tokens = Math.min(
+      tokensPerMinute,
+      bucket.tokens + (elapsed * tokensPerMinute) / 60000,
+    );
+    bucket.updatedAt = now;
+    return bucket;
+  }
+}
+
+/**
+ * Rough token count of a request body: about four characters per token of
+ * the prompt, plus the completion budget in `max_tokens`.
+ */
+export function estimateTokens(body: any): number {
+  if (!body || typeof body !== "object") return 0;
+
+  const prompt = body.messages ?? body.input ?? body.prompt ?? body.text ?? "";
+  const text = typeof prompt === "string" ? prompt : JSON.stringify(prompt);
+  const completion = body.max_completion_tokens ?? body.max_tokens ?? 0;
+  return Math.ceil(text.length / 4) + (Number(completion) || 0);
+}
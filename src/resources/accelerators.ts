@@ -1,52 +1,48 @@
 import { GravixLayer } from "../client";
 import { Accelerator } from "../types/accelerators";
+import { RequestOptions } from "../types/transport";
 
 export class Accelerators {
   constructor(private client: GravixLayer) {}
 
-  async list(): Promise<Accelerator[]> {
-    // Use the accelerators endpoint
-    const originalBaseURL = (this.client as any).baseURL;
-    (this.client as any).baseURL = originalBaseURL.replace(
-      "/v1/inference",
-      "/v1",
+  async list(requestOptions?: RequestOptions): Promise<Accelerator[]> {
+    const response = await this.client._makeRequest(
+      "GET",
+      this.client._serviceURL("accelerators"),
+      undefined,
+      false,
+      requestOptions,
     );
+    const acceleratorsData = await response.json();
 
-    try {
-      const response = await this.client._makeRequest("GET", "accelerators");
-      const acceleratorsData = await response.json();
-
-      // Handle different response formats
-      let rawAccelerators: any[] = [];
-      if (Array.isArray(acceleratorsData)) {
-        rawAccelerators = acceleratorsData;
-      } else if (
-        acceleratorsData &&
-        typeof acceleratorsData === "object" &&
-        acceleratorsData.accelerators
-      ) {
-        rawAccelerators = acceleratorsData.accelerators;
-      } else if (
-        acceleratorsData &&
-        typeof acceleratorsData === "object" &&
-        Object.keys(acceleratorsData).length === 0
-      ) {
-        // Empty object response means no accelerators
-        return [];
-      } else {
-        // If it's a different format, return empty array and log the issue
-        console.warn(
-          `Unexpected response format: ${typeof acceleratorsData}, content:`,
-          acceleratorsData,
-        );
-        return [];
-      }
-
-      // Transform raw accelerators to include computed properties
-      return rawAccelerators.map((acc) => this._transformAccelerator(acc));
-    } finally {
-      (this.client as any).baseURL = originalBaseURL;
+    // Handle different response formats
+    let rawAccelerators: any[] = [];
+    if (Array.isArray(acceleratorsData)) {
+      rawAccelerators = acceleratorsData;
+    } else if (
+      acceleratorsData &&
+      typeof acceleratorsData === "object" &&
+      acceleratorsData.accelerators
+    ) {
+      rawAccelerators = acceleratorsData.accelerators;
+    } else if (
+      acceleratorsData &&
+      typeof acceleratorsData === "object" &&
+      Object.keys(acceleratorsData).length === 0
+    ) {
+      // Empty object response means no accelerators
+      return [];
+    } else {
+      // If it's a different format, return empty array and log the issue
+      this.client.logger.warn(
+        `Unexpected response format: ${typeof acceleratorsData}, content:`,
+        acceleratorsData,
+      );
+      return [];
     }
+
+    // Transform raw accelerators to include computed properties
+    return rawAccelerators.map((acc) => this._transformAccelerator(acc));
   }
 
   private _transformAccelerator(acc: any): Accelerator {
@@ -8,174 +8,223 @@ import {
   ChatCompletionDelta,
   FunctionCall,
   ToolCall,
+  ParsedChatCompletion,
+  ResponseFormat,
 } from "../../types/chat";
+import { GravixLayerError } from "../../types/exceptions";
+import { FetchResponse, RequestOptions } from "../../types/transport";
+import { APIPromise } from "../../api-promise";
+import { isDeterministic } from "../../cache";
+import { iterateJSONEvents } from "../../streaming";
+import { SchemaResponseFormat, SchemaTool } from "../../schema";
+import { ChatCompletionStream } from "./stream";
+import { ChatCompletionRunner, RunToolsParams } from "./runner";
 
 export class ChatCompletions {
   constructor(private client: GravixLayer) {}
 
-  async create(params: ChatCompletionCreateParams): Promise<ChatCompletion>;
-  async create(
+  create(
     params: ChatCompletionCreateParams & { stream: true },
-  ): Promise<AsyncIterable<ChatCompletion>>;
-  async create(
+    requestOptions?: RequestOptions,
+  ): APIPromise<AsyncIterable<ChatCompletion>>;
+  create(
     params: ChatCompletionCreateParams,
-  ): Promise<ChatCompletion | AsyncIterable<ChatCompletion>> {
-    // Convert message objects to plain objects if needed
-    const serializedMessages = params.messages.map((msg) => {
-      if (typeof msg === "object" && msg !== null) {
-        const msgDict: any = {
-          role: msg.role,
-          content: msg.content,
-        };
+    requestOptions?: RequestOptions,
+  ): APIPromise<ChatCompletion>;
+  create(
+    params: ChatCompletionCreateParams,
+    requestOptions?: RequestOptions,
+  ): APIPromise<ChatCompletion | AsyncIterable<ChatCompletion>> {
+    return new APIPromise(async () => {
+      // Convert message objects to plain objects if needed
+      const serializedMessages = params.messages.map((msg) => {
+        if (typeof msg === "object" && msg !== null) {
+          // Content is sent as-is: text or an array of content parts
+          const msgDict: any = {
+            role: msg.role,
+            content: msg.content,
+          };
 
-        if (msg.name) msgDict.name = msg.name;
-        if (msg.tool_call_id) msgDict.tool_call_id = msg.tool_call_id;
-        if (msg.tool_calls) {
-          msgDict.tool_calls = msg.tool_calls.map((toolCall) => ({
-            id: toolCall.id,
-            type: toolCall.type,
-            function: {
-              name: toolCall.function.name,
-              arguments: toolCall.function.arguments,
-            },
-          }));
+          if (msg.name) msgDict.name = msg.name;
+          if (msg.tool_call_id) msgDict.tool_call_id = msg.tool_call_id;
+          if (msg.tool_calls) {
+            msgDict.tool_calls = msg.tool_calls.map((toolCall) => ({
+              id: toolCall.id,
+              type: toolCall.type,
+              function: {
+                name: toolCall.function.name,
+                arguments: toolCall.function.arguments,
+              },
+            }));
+          }
+
+          return msgDict;
         }
+        return msg;
+      });
+
+      const { extra_body: extraBody, ...rest } = params;
+      const data: any = {
+        ...rest,
+        model: params.model,
+        messages: serializedMessages,
+        stream: params.stream || false,
+        ...extraBody,
+      };
 
-        return msgDict;
-      }
-      return msg;
+      if (params.stream) return this._createStream(data, requestOptions);
+      // Only replies that would come out the same again are worth caching
+      return isDeterministic(data)
+        ? this.client._cached("chat/completions", data, requestOptions, () =>
+            this._createNonStream(data, requestOptions),
+          )
+        : this._createNonStream(data, requestOptions);
     });
+  }
 
-    const data: any = {
-      ...params,
-      model: params.model,
-      messages: serializedMessages,
-      stream: params.stream || false,
-    };
+  /**
+   * Stream a completion through a `ChatCompletionStream`, which merges the
+   * chunks and emits `content`, `tool_call.delta` and `done` events.
+   */
+  stream(
+    params: Omit<ChatCompletionCreateParams, "stream">,
+    requestOptions?: RequestOptions,
+  ): ChatCompletionStream {
+    return new ChatCompletionStream(
+      (signal) =>
+        this.create({ ...params, stream: true }, { ...requestOptions, signal }),
+      requestOptions?.signal,
+    );
+  }
 
-    return params.stream
-      ? this._createStream(data)
-      : this._createNonStream(data);
+  /**
+   * Create a completion and validate its structured output: the content
+   * against a `schemaResponseFormat()` and tool call arguments against
+   * `schemaTool()` definitions. Throws `GravixLayerValidationError` when
+   * either does not match.
+   */
+  async parse<T = null>(
+    params: Omit<ChatCompletionCreateParams, "stream" | "response_format"> & {
+      response_format?: SchemaResponseFormat<T> | ResponseFormat | null;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<ParsedChatCompletion<T>> {
+    const completion = (await this.create(
+      { ...params, stream: false },
+      requestOptions,
+    )) as ParsedChatCompletion<T>;
+
+    const format = params.response_format;
+    const parseContent =
+      format && "parseContent" in format ? format.parseContent : undefined;
+    const schemaTools = new Map<string, SchemaTool>();
+    for (const tool of params.tools || []) {
+      if (typeof (tool as SchemaTool).parseArguments === "function") {
+        schemaTools.set(tool.function.name, tool as SchemaTool);
+      }
+    }
+
+    for (const choice of completion.choices) {
+      const { message } = choice;
+      message.parsed =
+        parseContent && typeof message.content === "string" && message.content
+          ? parseContent(message.content)
+          : null;
+
+      for (const toolCall of message.tool_calls || []) {
+        const tool = schemaTools.get(toolCall.function.name);
+        if (tool) {
+          toolCall.function.parsed_arguments = tool.parseArguments(
+            toolCall.function.arguments,
+          );
+        }
+      }
+    }
+    return completion;
+  }
+
+  /**
+   * Let the model call `tools` until it produces a final answer. Tool calls
+   * from one reply run in parallel and their results are sent back as
+   * `tool` messages.
+   */
+  runTools(
+    params: RunToolsParams,
+    requestOptions?: RequestOptions,
+  ): ChatCompletionRunner {
+    return new ChatCompletionRunner(
+      (createParams, options) =>
+        this.create({ ...createParams, stream: false }, options),
+      params,
+      requestOptions,
+    );
   }
 
-  private async _createNonStream(data: any): Promise<ChatCompletion> {
+  private async _createNonStream(
+    data: any,
+    requestOptions?: RequestOptions,
+  ): Promise<ChatCompletion> {
     const response = await this.client._makeRequest(
       "POST",
       "chat/completions",
       data,
+      false,
+      requestOptions,
     );
     const responseData = await response.json();
-    return this._parseResponse(responseData);
+    const completion = this._parseResponse(responseData);
+    this.client.usage.record("chat", data.model, completion.usage, {
+      user: data.user,
+      tags: requestOptions?.tags,
+    });
+    return completion;
   }
 
-  private async *_createStream(data: any): AsyncIterable<ChatCompletion> {
+  private async _createStream(
+    data: any,
+    requestOptions?: RequestOptions,
+  ): Promise<AsyncIterable<ChatCompletion>> {
+    // Send the request right away so HTTP errors surface from create()
     const response = await this.client._makeRequest(
       "POST",
       "chat/completions",
       data,
       true,
+      requestOptions,
     );
+    return this._iterateStream(response, data, requestOptions);
+  }
 
-    if (!response.body) {
-      throw new Error("No response body for streaming");
-    }
-
-    // node-fetch v3 returns a ReadableStream, but we need to handle it differently
-    const decoder = new TextDecoder();
-    let buffer = "";
-
+  private async *_iterateStream(
+    response: FetchResponse,
+    data: any,
+    requestOptions?: RequestOptions,
+  ): AsyncIterable<ChatCompletion> {
+    // Some servers repeat cumulative usage on every chunk, so only the
+    // last one is recorded
+    let usage: ChatCompletion["usage"];
     try {
-      // For node-fetch, response.body is a ReadableStream
-      const reader = response.body as any;
-
-      // Use async iteration if available
-      if (reader[Symbol.asyncIterator]) {
-        for await (const chunk of reader) {
-          buffer += decoder.decode(chunk, { stream: true });
-          const lines = buffer.split("\n");
-          buffer = lines.pop() || "";
-
-          for (let line of lines) {
-            line = line.trim();
-
-            // Handle SSE format
-            if (line.startsWith("data: ")) {
-              line = line.slice(6);
-            }
-
-            // Skip empty lines and [DONE] marker
-            if (!line || line === "[DONE]") {
-              continue;
-            }
-
-            try {
-              const chunkData = JSON.parse(line);
-
-              if (chunkData && typeof chunkData === "object") {
-                const parsedChunk = this._parseResponse(chunkData, true);
-
-                if (parsedChunk.choices && parsedChunk.choices.length > 0) {
-                  yield parsedChunk;
-                }
-              }
-            } catch (error) {
-              // Skip malformed JSON
-              continue;
-            }
-          }
-        }
-      } else {
-        // Fallback: try to get reader
-        const streamReader = reader.getReader ? reader.getReader() : null;
-        if (streamReader) {
-          while (true) {
-            const { done, value } = await streamReader.read();
-            if (done) break;
-
-            buffer += decoder.decode(value, { stream: true });
-            const lines = buffer.split("\n");
-            buffer = lines.pop() || "";
-
-            for (let line of lines) {
-              line = line.trim();
-
-              // Handle SSE format
-              if (line.startsWith("data: ")) {
-                line = line.slice(6);
-              }
-
-              // Skip empty lines and [DONE] marker
-              if (!line || line === "[DONE]") {
-                continue;
-              }
-
-              try {
-                const chunkData = JSON.parse(line);
-
-                if (chunkData && typeof chunkData === "object") {
-                  const parsedChunk = this._parseResponse(chunkData, true);
-
-                  if (parsedChunk.choices && parsedChunk.choices.length > 0) {
-                    yield parsedChunk;
-                  }
-                }
-              } catch (error) {
-                // Skip malformed JSON
-                continue;
-              }
-            }
+      for await (const chunkData of iterateJSONEvents(response)) {
+        if (chunkData && typeof chunkData === "object") {
+          const parsedChunk = this._parseResponse(chunkData, true);
+          if (parsedChunk.usage) usage = parsedChunk.usage;
+
+          // The usage-only chunk closing the stream has no choices
+          if (parsedChunk.choices.length > 0 || parsedChunk.usage) {
+            yield parsedChunk;
           }
-          streamReader.releaseLock();
-        } else {
-          throw new Error(
-            "Streaming not supported with this fetch implementation",
-          );
         }
       }
     } catch (error) {
+      if (error instanceof GravixLayerError) throw error;
       throw new Error(
         `Streaming error: ${error instanceof Error ? error.message : String(error)}`,
       );
+    } finally {
+      this.client.usage.record("chat", data.model, usage, {
+        user: data.user,
+        tags: requestOptions?.tags,
+      });
     }
   }
 
@@ -189,114 +238,65 @@ export class ChatCompletions {
 
     const choices: ChatCompletionChoice[] = [];
 
-    if (respData.choices && Array.isArray(respData.choices)) {
+    if (
+      Array.isArray(respData.choices) &&
+      (respData.choices.length > 0 || isStream)
+    ) {
       for (const choiceData of respData.choices) {
         if (!choiceData || typeof choiceData !== "object") {
           continue;
         }
 
+        const choice: ChatCompletionChoice = {
+          ...choiceData,
+          index: choiceData.index || 0,
+          message: {} as ChatCompletionMessage,
+          logprobs: choiceData.logprobs ?? null,
+          finish_reason: choiceData.finish_reason || null,
+        };
+
         if (isStream) {
-          // For streaming, create delta object
-          let deltaContent: string | null = null;
-          let deltaRole: string | null = null;
-          let deltaToolCalls: ToolCall[] | null = null;
-
-          if (choiceData.delta && typeof choiceData.delta === "object") {
-            const delta = choiceData.delta;
-            deltaContent = delta.content || null;
-            deltaRole = delta.role || null;
-
-            // Parse tool calls in delta
-            if (delta.tool_calls && Array.isArray(delta.tool_calls)) {
-              deltaToolCalls = [];
-              for (const toolCallData of delta.tool_calls) {
-                if (toolCallData && typeof toolCallData === "object") {
-                  const functionData = toolCallData.function || {};
-                  const functionCall: FunctionCall = {
-                    name: functionData.name || "",
-                    arguments: functionData.arguments || "{}",
-                  };
-                  const toolCall: ToolCall = {
-                    id: toolCallData.id || "",
-                    type: toolCallData.type || "function",
-                    function: functionCall,
-                  };
-                  deltaToolCalls.push(toolCall);
-                }
-              }
-            }
-          } else if (
-            choiceData.message &&
-            typeof choiceData.message === "object"
-          ) {
-            // Fallback: treat message as delta
-            const message = choiceData.message;
-            deltaContent = message.content || null;
-            deltaRole = message.role || null;
-          }
+          // For streaming, create delta object; fall back to treating a
+          // message as the delta
+          const delta =
+            choiceData.delta && typeof choiceData.delta === "object"
+              ? choiceData.delta
+              : choiceData.message && typeof choiceData.message === "object"
+                ? choiceData.message
+                : {};
+          const deltaToolCalls = this._parseToolCalls(delta.tool_calls, true);
 
-          // Create delta object
           const deltaObj: ChatCompletionDelta = {
-            role: deltaRole,
-            content: deltaContent,
-            tool_calls: deltaToolCalls || undefined,
+            ...delta,
+            role: delta.role || null,
+            content: delta.content || null,
+            tool_calls: deltaToolCalls,
           };
 
-          const msg: ChatCompletionMessage = {
-            role: deltaRole || "assistant",
-            content: deltaContent || "",
-            tool_calls: deltaToolCalls || undefined,
+          choice.delta = deltaObj;
+          choice.message = {
+            role: deltaObj.role || "assistant",
+            content: deltaObj.content || "",
+            tool_calls: deltaToolCalls,
           };
-
-          choices.push({
-            index: choiceData.index || 0,
-            message: msg,
-            delta: deltaObj,
-            finish_reason: choiceData.finish_reason || null,
-          });
+          if (delta.refusal) choice.message.refusal = delta.refusal;
         } else {
           // For non-streaming, use message object
           const messageData = choiceData.message || {};
 
-          // Parse tool calls if present
-          let toolCalls: ToolCall[] | undefined;
-          if (messageData.tool_calls && Array.isArray(messageData.tool_calls)) {
-            toolCalls = [];
-            for (const toolCallData of messageData.tool_calls) {
-              if (toolCallData && typeof toolCallData === "object") {
-                const functionData = toolCallData.function || {};
-                const functionCall: FunctionCall = {
-                  name: functionData.name || "",
-                  arguments: functionData.arguments || "{}",
-                };
-                const toolCall: ToolCall = {
-                  id: toolCallData.id || "",
-                  type: toolCallData.type || "function",
-                  function: functionCall,
-                };
-                toolCalls.push(toolCall);
-              }
-            }
-          }
-
-          const msg: ChatCompletionMessage = {
+          choice.message = {
+            ...messageData,
             role: messageData.role || "assistant",
             content: messageData.content || null,
-            tool_calls: toolCalls,
+            tool_calls: this._parseToolCalls(messageData.tool_calls, false),
             tool_call_id: messageData.tool_call_id,
           };
-
-          choices.push({
-            index: choiceData.index || 0,
-            message: msg,
-            finish_reason: choiceData.finish_reason || null,
-          });
         }
-      }
-    }
 
-    // Fallback: create a single choice if no choices found
-    if (choices.length === 0) {
+        choices.push(choice);
+      }
+    } else {
+      // Fallback: create a single choice from a bare payload
       let content = "";
       if (typeof respData === "string") {
         content = respData;
@@ -323,17 +323,20 @@ export class ChatCompletions {
       }
     }
 
-    // Parse usage if available
+    // Parse usage if available; streams send it on the final chunk
     let usage: ChatCompletionUsage | undefined;
     if (respData.usage && typeof respData.usage === "object") {
       usage = {
+        ...respData.usage,
         prompt_tokens: respData.usage.prompt_tokens || 0,
         completion_tokens: respData.usage.completion_tokens || 0,
         total_tokens: respData.usage.total_tokens || 0,
       };
     }
 
+    // Unknown top-level fields are carried through untouched
     return {
+      ...respData,
       id: respData.id || `chatcmpl-${Date.now()}`,
       object: isStream ? "chat.completion.chunk" : "chat.completion",
       created: respData.created || Math.floor(Date.now() / 1000),
@@ -342,6 +345,35 @@ export class ChatCompletions {
       usage,
     };
   }
+
+  private _parseToolCalls(
+    toolCallsData: any,
+    isStream: boolean,
+  ): ToolCall[] | undefined {
+    if (!Array.isArray(toolCallsData)) {
+      return undefined;
+    }
+
+    const toolCalls: ToolCall[] = [];
+    for (const toolCallData of toolCallsData) {
+      if (toolCallData && typeof toolCallData === "object") {
+        const functionData = toolCallData.function || {};
+        // Streamed arguments arrive in fragments; keep them verbatim
+        const functionCall: FunctionCall = {
+          name: functionData.name || "",
+          arguments: functionData.arguments || (isStream ? "" : "{}"),
+        };
+        const toolCall: ToolCall = {
+          id: toolCallData.id || "",
+          type: toolCallData.type || "function",
+          function: functionCall,
+        };
+        if (isStream) toolCall.index = toolCallData.index;
+        toolCalls.push(toolCall);
+      }
+    }
+    return toolCalls;
+  }
 }
 
 export class ChatResource {
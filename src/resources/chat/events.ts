@@ -0,0 +1,37 @@
+/**
+ * Typed event listeners shared by chat helpers
+ */
+type Listener = (...args: any[]) => void;
+
+export class ChatEventEmitter<Events extends Record<keyof Events, Listener>> {
+  private listeners: { [E in keyof Events]?: Events[E][] } = {};
+
+  on<E extends keyof Events>(event: E, listener: Events[E]): this {
+    (this.listeners[event] ||= []).push(listener);
+    return this;
+  }
+
+  off<E extends keyof Events>(event: E, listener: Events[E]): this {
+    const listeners = this.listeners[event];
+    const index = listeners ? listeners.indexOf(listener) : -1;
+    if (index >= 0) listeners!.splice(index, 1);
+    return this;
+  }
+
+  once<E extends keyof Events>(event: E, listener: Events[E]): this {
+    const wrapper = ((...args: any[]) => {
+      this.off(event, wrapper);
+      listener(...args);
+    }) as Events[E];
+    return this.on(event, wrapper);
+  }
+
+  protected _emit<E extends keyof Events>(
+    event: E,
+    ...args: Parameters<Events[E]>
+  ): void {
+    for (const listener of [...(this.listeners[event] || [])]) {
+      listener(...args);
+    }
+  }
+}
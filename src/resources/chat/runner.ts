@@ -0,0 +1,272 @@
+/**
+ * Automatic tool-calling loop for chat completions
+ */
+import {
+  ChatCompletion,
+  ChatCompletionCreateParams,
+  ChatCompletionMessage,
+  ChatCompletionMessageParam,
+  ChatCompletionUsage,
+  ToolCall,
+} from "../../types/chat";
+import {
+  GravixLayerBadRequestError,
+  GravixLayerConnectionError,
+  GravixLayerError,
+} from "../../types/exceptions";
+import { RequestOptions } from "../../types/transport";
+import { SchemaTool } from "../../schema";
+import { ChatEventEmitter } from "./events";
+
+/**
+ * A JavaScript function the model may call. `name` defaults to the
+ * function's own name; `parse` turns the raw JSON arguments into the
+ * function's input and defaults to `JSON.parse`.
+ */
+export interface RunnableTool<Args = any> {
+  function: (args: Args, runner: ChatCompletionRunner) => unknown;
+  name?: string;
+  description?: string;
+  /** JSON Schema of the arguments. Defaults to an empty object schema. */
+  parameters?: Record<string, any>;
+  parse?: (input: string) => Args;
+}
+
+export interface RunToolsParams
+  extends Omit<ChatCompletionCreateParams, "tools" | "stream"> {
+  /** Runnable functions, or `schemaTool()` definitions with a `handler`. */
+  tools: (RunnableTool | SchemaTool)[];
+  /** Upper bound on model round trips. Defaults to 10. */
+  maxIterations?: number;
+}
+
+export interface ChatCompletionRunnerEvents {
+  /** Every message added to the transcript, including tool results. */
+  message: (message: ChatCompletionMessage) => void;
+  chatCompletion: (completion: ChatCompletion) => void;
+  /** The model asked for a tool; fired before it runs. */
+  toolCall: (toolCall: ToolCall) => void;
+  /** A tool finished; `content` is what is sent back to the model. */
+  toolResult: (toolCall: ToolCall, content: string) => void;
+  /** The model answered without asking for more tools. */
+  end: (messages: ChatCompletionMessageParam[]) => void;
+  error: (error: Error) => void;
+}
+
+type CreateCompletion = (
+  params: ChatCompletionCreateParams,
+  requestOptions: RequestOptions,
+) => Promise<ChatCompletion>;
+
+const DEFAULT_MAX_ITERATIONS = 10;
+
+/**
+ * Runs the call-tool-append-resend loop: sends the conversation, executes
+ * the requested tools in parallel, appends their results as `tool`
+ * messages and repeats until the model replies without tool calls.
+ *
+ * The run starts as soon as the runner is created.
+ */
+export class ChatCompletionRunner extends ChatEventEmitter<ChatCompletionRunnerEvents> {
+  /** The full transcript: the input messages followed by every reply. */
+  messages: ChatCompletionMessageParam[];
+  chatCompletions: ChatCompletion[] = [];
+  private controller = new AbortController();
+  private completion: Promise<void>;
+  private error?: Error;
+
+  constructor(
+    create: CreateCompletion,
+    params: RunToolsParams,
+    requestOptions?: RequestOptions,
+  ) {
+    super();
+    this.messages = [...params.messages];
+
+    const signal = requestOptions?.signal;
+    if (signal?.aborted) {
+      this.controller.abort();
+    } else {
+      signal?.addEventListener("abort", () => this.abort(), { once: true });
+    }
+    this.completion = this._run(create, params, requestOptions);
+  }
+
+  /** Stop the run; the pending request and any further rounds are cancelled. */
+  abort(): void {
+    this.controller.abort();
+  }
+
+  /**
+   * Resolve with the full transcript once the model stops calling tools.
+   */
+  async done(): Promise<ChatCompletionMessageParam[]> {
+    await this.completion;
+    if (this.error) throw this.error;
+    return this.messages;
+  }
+
+  /**
+   * Resolve with the model's final reply.
+   */
+  async finalMessage(): Promise<ChatCompletionMessage> {
+    const messages = await this.done();
+    // The run only ends on a reply from the model
+    return messages[messages.length - 1] as ChatCompletionMessage;
+  }
+
+  async finalContent(): Promise<string | null> {
+    return (await this.finalMessage()).content ?? null;
+  }
+
+  /**
+   * Token usage summed over every completion in the run.
+   */
+  totalUsage(): ChatCompletionUsage {
+    const usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+    for (const completion of this.chatCompletions) {
+      usage.prompt_tokens += completion.usage?.prompt_tokens || 0;
+      usage.completion_tokens += completion.usage?.completion_tokens || 0;
+      usage.total_tokens += completion.usage?.total_tokens || 0;
+    }
+    return usage;
+  }
+
+  private async _run(
+    create: CreateCompletion,
+    params: RunToolsParams,
+    requestOptions?: RequestOptions,
+  ): Promise<void> {
+    const { tools, maxIterations = DEFAULT_MAX_ITERATIONS, ...rest } = params;
+    const { signal } = this.controller;
+
+    try {
+      const toolsByName = new Map<string, RunnableTool>();
+      for (const tool of tools.map(toRunnableTool)) {
+        const name = tool.name || tool.function.name;
+        if (!name) {
+          throw new GravixLayerBadRequestError(
+            "Every tool needs a name; pass `name` for anonymous functions",
+          );
+        }
+        toolsByName.set(name, tool);
+      }
+      const definitions = [...toolsByName].map(([name, tool]) => ({
+        type: "function" as const,
+        function: {
+          name,
+          description: tool.description,
+          parameters: tool.parameters || { type: "object", properties: {} },
+        },
+      }));
+
+      for (let iteration = 0; iteration < maxIterations; iteration++) {
+        const completion = await create(
+          { ...rest, messages: this.messages, tools: definitions },
+          { ...requestOptions, signal },
+        );
+        this.chatCompletions.push(completion);
+        this._emit("chatCompletion", completion);
+
+        const message = completion.choices[0]?.message;
+        if (!message) {
+          throw new GravixLayerError("Chat completion returned no choices");
+        }
+        this._addMessage(message);
+
+        if (!message.tool_calls?.length) {
+          this._emit("end", this.messages);
+          return;
+        }
+
+        const results = await Promise.all(
+          message.tool_calls.map((toolCall) =>
+            this._callTool(toolsByName, toolCall),
+          ),
+        );
+        message.tool_calls.forEach((toolCall, index) => {
+          this._addMessage({
+            role: "tool",
+            tool_call_id: toolCall.id,
+            content: results[index],
+          });
+        });
+
+        if (signal.aborted) {
+          throw new GravixLayerConnectionError("Request was aborted.");
+        }
+      }
+
+      throw new GravixLayerError(
+        `Tool calling did not finish within ${maxIterations} iterations`,
+      );
+    } catch (error) {
+      this.error = error instanceof Error ? error : new Error(String(error));
+      this._emit("error", this.error);
+    }
+  }
+
+  private async _callTool(
+    toolsByName: Map<string, RunnableTool>,
+    toolCall: ToolCall,
+  ): Promise<string> {
+    this._emit("toolCall", toolCall);
+
+    const { name, arguments: rawArguments } = toolCall.function;
+    const tool = toolsByName.get(name);
+    let content: string;
+
+    // Mistakes the model can correct are reported back to it
+    if (!tool) {
+      content = `Tool "${name}" does not exist. Available tools: ${[
+        ...toolsByName.keys(),
+      ].join(", ")}`;
+    } else {
+      let args: any;
+      let parseError: unknown;
+      try {
+        args = tool.parse ? tool.parse(rawArguments) : JSON.parse(rawArguments);
+      } catch (error) {
+        parseError = error;
+      }
+
+      content = parseError
+        ? `Invalid arguments for "${name}": ${
+            parseError instanceof Error ? parseError.message : parseError
+          }`
+        : stringifyResult(await tool.function(args, this));
+    }
+
+    this._emit("toolResult", toolCall, content);
+    return content;
+  }
+
+  private _addMessage(message: ChatCompletionMessage): void {
+    this.messages.push(message);
+    this._emit("message", message);
+  }
+}
+
+function stringifyResult(result: unknown): string {
+  if (typeof result === "string") return result;
+  if (result === undefined) return "";
+  return JSON.stringify(result);
+}
+
+function toRunnableTool(tool: RunnableTool | SchemaTool): RunnableTool {
+  if (typeof tool.function === "function") return tool as RunnableTool;
+
+  const { function: definition, parseArguments, handler } = tool as SchemaTool;
+  if (!handler) {
+    throw new GravixLayerBadRequestError(
+      `Tool "${definition.name}" has no handler to run`,
+    );
+  }
+  return {
+    name: definition.name,
+    description: definition.description,
+    parameters: definition.parameters,
+    parse: parseArguments,
+    function: handler,
+  };
+}
@@ -0,0 +1,247 @@
+/**
+ * Accumulating chat completion stream for GravixLayer SDK
+ */
+import {
+  ChatCompletion,
+  ChatCompletionChoice,
+  ChatCompletionMessage,
+  ToolCall,
+} from "../../types/chat";
+import {
+  GravixLayerConnectionError,
+  GravixLayerError,
+} from "../../types/exceptions";
+import { ChatEventEmitter } from "./events";
+
+export interface ChatCompletionStreamEvents {
+  /** Every raw chunk, with the completion accumulated so far. */
+  chunk: (chunk: ChatCompletion, snapshot: ChatCompletion) => void;
+  /** New text for a choice, with that choice's full text so far. */
+  content: (delta: string, snapshot: string, choiceIndex: number) => void;
+  /** A partial tool call, with the call merged so far. */
+  "tool_call.delta": (
+    delta: ToolCall,
+    snapshot: ToolCall,
+    choiceIndex: number,
+  ) => void;
+  /** The stream finished; receives the accumulated completion. */
+  done: (completion: ChatCompletion) => void;
+  error: (error: Error) => void;
+}
+
+/**
+ * Wraps a streamed chat completion, merging chunks into a single
+ * `ChatCompletion` while exposing the raw chunks, text deltas and events.
+ *
+ * The request starts as soon as the stream is created. Chunks are buffered,
+ * so iterating late still sees every chunk.
+ */
+export class ChatCompletionStream
+  extends ChatEventEmitter<ChatCompletionStreamEvents>
+  implements AsyncIterable<ChatCompletion>
+{
+  private controller = new AbortController();
+  private chunks: ChatCompletion[] = [];
+  private snapshot?: ChatCompletion;
+  private ended = false;
+  private error?: Error;
+  private wake: (() => void)[] = [];
+
+  constructor(
+    source: (signal: AbortSignal) => Promise<AsyncIterable<ChatCompletion>>,
+    signal?: AbortSignal,
+  ) {
+    super();
+    if (signal?.aborted) {
+      this.controller.abort();
+    } else {
+      signal?.addEventListener("abort", () => this.abort(), { once: true });
+    }
+    // A listener that throws once the stream has ended has nowhere to go;
+    // keep it from becoming an unhandled rejection
+    this._run(source).catch(() => {});
+  }
+
+  /** Cancel the underlying request. Pending reads reject with an abort error. */
+  abort(): void {
+    this.controller.abort();
+    // Settle pending reads now, even if the transport ignores the signal
+    this._fail(new GravixLayerConnectionError("Request was aborted."));
+  }
+
+  get aborted(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  /**
+   * Resolve with the accumulated completion once the stream ends.
+   */
+  async finalChatCompletion(): Promise<ChatCompletion> {
+    while (!this.ended) {
+      await new Promise<void>((resolve) => this.wake.push(resolve));
+    }
+    if (this.error) throw this.error;
+    return this.snapshot!;
+  }
+
+  /**
+   * Resolve with the accumulated message of the first choice.
+   */
+  async finalMessage(): Promise<ChatCompletionMessage> {
+    const completion = await this.finalChatCompletion();
+    if (!completion.choices.length) {
+      throw new GravixLayerError(
+        "The stream produced no choices, so there is no message",
+      );
+    }
+    return completion.choices[0].message;
+  }
+
+  /**
+   * Text deltas of the first choice.
+   */
+  get textStream(): AsyncIterable<string> {
+    const stream = this;
+    return {
+      async *[Symbol.asyncIterator]() {
+        for await (const chunk of stream) {
+          const content = chunk.choices.find((choice) => choice.index === 0)
+            ?.delta?.content;
+          if (content) yield content;
+        }
+      },
+    };
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<ChatCompletion> {
+    for (let position = 0; ; ) {
+      if (position < this.chunks.length) {
+        yield this.chunks[position++];
+      } else if (this.error) {
+        throw this.error;
+      } else if (this.ended) {
+        return;
+      } else {
+        await new Promise<void>((resolve) => this.wake.push(resolve));
+      }
+    }
+  }
+
+  private async _run(
+    source: (signal: AbortSignal) => Promise<AsyncIterable<ChatCompletion>>,
+  ): Promise<void> {
+    const { signal } = this.controller;
+    try {
+      const chunks = await source(signal);
+      for await (const chunk of chunks) {
+        if (signal.aborted) break;
+        this._addChunk(chunk);
+      }
+    } catch (error) {
+      this._fail(error);
+      return;
+    }
+
+    if (signal.aborted || !this.snapshot) {
+      this._fail(new Error("Stream ended without any chunks"));
+      return;
+    }
+    this.ended = true;
+    this._notify();
+    this._emit("done", this.snapshot);
+  }
+
+  private _fail(error: unknown): void {
+    if (this.ended) return;
+    this.error = this.controller.signal.aborted
+      ? new GravixLayerConnectionError("Request was aborted.")
+      : error instanceof Error
+        ? error
+        : new Error(String(error));
+    this.ended = true;
+    this._notify();
+    this._emit("error", this.error);
+  }
+
+  private _addChunk(chunk: ChatCompletion): void {
+    const snapshot = (this.snapshot ||= {
+      id: chunk.id,
+      object: "chat.completion",
+      created: chunk.created,
+      model: chunk.model,
+      choices: [],
+    });
+    if (chunk.usage) snapshot.usage = chunk.usage;
+    if (chunk.system_fingerprint) {
+      snapshot.system_fingerprint = chunk.system_fingerprint;
+    }
+
+    this.chunks.push(chunk);
+    this._notify();
+
+    for (const choice of chunk.choices) {
+      const accumulated = this._choice(choice.index);
+      const delta = choice.delta || {};
+      const message = accumulated.message;
+
+      if (delta.role) message.role = delta.role;
+      if (choice.finish_reason) {
+        accumulated.finish_reason = choice.finish_reason;
+      }
+
+      if (delta.refusal) {
+        message.refusal = (message.refusal || "") + delta.refusal;
+      }
+
+      if (delta.content) {
+        message.content = (message.content || "") + delta.content;
+        this._emit("content", delta.content, message.content, choice.index);
+      }
+
+      delta.tool_calls?.forEach((toolCall, position) => {
+        const index = toolCall.index ?? position;
+        const toolCalls = (message.tool_calls ||= []);
+        let merged = toolCalls.find((call) => call.index === index);
+        if (!merged) {
+          merged = {
+            index,
+            id: "",
+            type: "function",
+            function: { name: "", arguments: "" },
+          };
+          toolCalls.push(merged);
+        }
+        if (toolCall.id) merged.id = toolCall.id;
+        if (toolCall.type) merged.type = toolCall.type;
+        if (toolCall.function?.name) {
+          merged.function.name = toolCall.function.name;
+        }
+        merged.function.arguments += toolCall.function?.arguments || "";
+        this._emit("tool_call.delta", toolCall, merged, choice.index);
+      });
+    }
+
+    this._emit("chunk", chunk, snapshot);
+  }
+
+  private _choice(index: number): ChatCompletionChoice {
+    const choices = this.snapshot!.choices;
+    let choice = choices.find((existing) => existing.index === index);
+    if (!choice) {
+      choice = {
+        index,
+        message: { role: "assistant", content: null },
+        finish_reason: null,
+      };
+      choices.push(choice);
+      choices.sort((a, b) => a.index - b.index);
+    }
+    return choice;
+  }
+
+  private _notify(): void {
+    const wake = this.wake;
+    this.wake = [];
+    wake.forEach((resolve) => resolve());
+  }
+}
@@ -5,6 +5,10 @@ import {
   CompletionChoice,
   CompletionUsage,
 } from "../types/completions";
+import { GravixLayerError } from "../types/exceptions";
+import { RequestOptions } from "../types/transport";
+import { iterateJSONEvents } from "../streaming";
+import { isDeterministic } from "../cache";
 
 /**
  * Completions resource for prompt-based text generation.
@@ -15,12 +19,17 @@ import {
 export class Completions {
   constructor(private client: GravixLayer) {}
 
-  async create(params: CompletionCreateParams): Promise<Completion>;
   async create(
     params: CompletionCreateParams & { stream: true },
+    requestOptions?: RequestOptions,
   ): Promise<AsyncIterable<Completion>>;
   async create(
     params: CompletionCreateParams,
+    requestOptions?: RequestOptions,
+  ): Promise<Completion>;
+  async create(
+    params: CompletionCreateParams,
+    requestOptions?: RequestOptions,
   ): Promise<Completion | AsyncIterable<Completion>> {
     const data: any = {
       model: params.model,
@@ -41,120 +50,69 @@ export class Completions {
       data.frequency_penalty = params.frequency_penalty;
     if (params.best_of !== undefined) data.best_of = params.best_of;
     if (params.logit_bias !== undefined) data.logit_bias = params.logit_bias;
+    if (params.seed !== undefined) data.seed = params.seed;
     if (params.user !== undefined) data.user = params.user;
 
-    return params.stream
-      ? this._createStream(data)
-      : this._createNonStream(data);
+    if (params.stream) return this._createStream(data, requestOptions);
+    return isDeterministic(data)
+      ? this.client._cached("completions", data, requestOptions, () =>
+          this._createNonStream(data, requestOptions),
+        )
+      : this._createNonStream(data, requestOptions);
   }
 
-  private async _createNonStream(data: any): Promise<Completion> {
+  private async _createNonStream(
+    data: any,
+    requestOptions?: RequestOptions,
+  ): Promise<Completion> {
     const response = await this.client._makeRequest(
       "POST",
       "completions",
       data,
+      false,
+      requestOptions,
     );
     const responseData = await response.json();
-    return this._parseResponse(responseData);
+    const completion = this._parseResponse(responseData);
+    this.client.usage.record("completions", data.model, completion.usage, {
+      user: data.user,
+      tags: requestOptions?.tags,
+    });
+    return completion;
   }
 
-  private async *_createStream(data: any): AsyncIterable<Completion> {
+  private async *_createStream(
+    data: any,
+    requestOptions?: RequestOptions,
+  ): AsyncIterable<Completion> {
     const response = await this.client._makeRequest(
       "POST",
       "completions",
       data,
       true,
+      requestOptions,
     );
 
-    if (!response.body) {
-      throw new Error("No response body for streaming");
-    }
-
-    // node-fetch v3 returns a ReadableStream, but we need to handle it differently
-    const decoder = new TextDecoder();
-    let buffer = "";
-
+    // Some servers repeat cumulative usage on every chunk, so only the
+    // last one is recorded
+    let usage: Completion["usage"];
     try {
-      // For node-fetch, response.body is a ReadableStream
-      const reader = response.body as any;
-
-      // Use async iteration if available
-      if (reader[Symbol.asyncIterator]) {
-        for await (const chunk of reader) {
-          buffer += decoder.decode(chunk, { stream: true });
-          const lines = buffer.split("\n");
-          buffer = lines.pop() || "";
-
-          for (let line of lines) {
-            line = line.trim();
-
-            // Handle SSE format
-            if (line.startsWith("data: ")) {
-              line = line.slice(6);
-            }
-
-            // Skip empty lines and [DONE] marker
-            if (!line || line === "[DONE]") {
-              continue;
-            }
-
-            try {
-              const chunkData = JSON.parse(line);
-              const parsedChunk = this._parseResponse(chunkData, true);
-
-              if (parsedChunk.choices && parsedChunk.choices.length > 0) {
-                yield parsedChunk;
-              }
-            } catch {
-              // Skip malformed JSON
-              continue;
-            }
-          }
-        }
-      } else {
-        // Fallback to getReader() method
-        const streamReader = reader.getReader();
-        try {
-          while (true) {
-            const { done, value } = await streamReader.read();
-            if (done) break;
-
-            buffer += decoder.decode(value, { stream: true });
-            const lines = buffer.split("\n");
-            buffer = lines.pop() || "";
-
-            for (let line of lines) {
-              line = line.trim();
-
-              // Handle SSE format
-              if (line.startsWith("data: ")) {
-                line = line.slice(6);
-              }
-
-              // Skip empty lines and [DONE] marker
-              if (!line || line === "[DONE]") {
-                continue;
-              }
-
-              try {
-                const chunkData = JSON.parse(line);
-                const parsedChunk = this._parseResponse(chunkData, true);
-
-                if (parsedChunk.choices && parsedChunk.choices.length > 0) {
-                  yield parsedChunk;
-                }
-              } catch (error) {
-                // Skip malformed JSON
-                continue;
-              }
-            }
-          }
-        } finally {
-          streamReader.releaseLock();
+      for await (const chunkData of iterateJSONEvents(response)) {
+        const parsedChunk = this._parseResponse(chunkData, true);
+        if (parsedChunk.usage) usage = parsedChunk.usage;
+
+        if (parsedChunk.choices && parsedChunk.choices.length > 0) {
+          yield parsedChunk;
         }
       }
     } catch (error) {
+      if (error instanceof GravixLayerError) throw error;
       throw new Error(`Streaming error: ${error}`);
+    } finally {
+      this.client.usage.record("completions", data.model, usage, {
+        user: data.user,
+        tags: requestOptions?.tags,
+      });
     }
   }
 
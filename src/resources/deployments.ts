@@ -2,14 +2,20 @@ import { GravixLayer } from "../client";
 import {
   DeploymentCreate,
   Deployment,
+  DeploymentList,
   DeploymentResponse,
 } from "../types/deployments";
 import { Accelerator } from "../types/accelerators";
+import { RequestOptions } from "../types/transport";
+import { PagePromise, paginate } from "../pagination";
 
 export class Deployments {
   constructor(private client: GravixLayer) {}
 
-  async create(params: DeploymentCreate): Promise<DeploymentResponse> {
+  async create(
+    params: DeploymentCreate,
+    requestOptions?: RequestOptions,
+  ): Promise<DeploymentResponse> {
     let deploymentName = params.deployment_name;
 
     if (params.auto_retry) {
@@ -30,65 +36,74 @@ export class Deployments {
       model_name: params.model_name,
     };
 
-    // Use a different base URL for deployments API
-    const originalBaseURL = (this.client as any).baseURL;
-    (this.client as any).baseURL = originalBaseURL.replace(
-      "/v1/inference",
-      "/v1/deployments",
+    const response = await this.client._makeRequest(
+      "POST",
+      this.client._serviceURL("deployments", "create"),
+      data,
+      false,
+      requestOptions,
     );
-
-    try {
-      const response = await this.client._makeRequest("POST", "create", data);
-      const result = await response.json();
-      return result as DeploymentResponse;
-    } finally {
-      (this.client as any).baseURL = originalBaseURL;
-    }
+    const result = await response.json();
+    return result as DeploymentResponse;
   }
 
-  async list(): Promise<Deployment[]> {
-    // Use a different base URL for deployments API
-    const originalBaseURL = (this.client as any).baseURL;
-    (this.client as any).baseURL = originalBaseURL.replace(
-      "/v1/inference",
-      "/v1/deployments",
+  /**
+   * List all deployments. The API returns them all at once, so the
+   * result is a single page.
+   */
+  list(
+    requestOptions?: RequestOptions,
+  ): PagePromise<Deployment, DeploymentList> {
+    return paginate(
+      undefined,
+      async () => ({ deployments: await this._listAll(requestOptions) }),
+      (page) => page.deployments,
     );
+  }
 
-    try {
-      const response = await this.client._makeRequest("GET", "list");
-      const deploymentsData = await response.json();
+  private async _listAll(
+    requestOptions?: RequestOptions,
+  ): Promise<Deployment[]> {
+    const response = await this.client._makeRequest(
+      "GET",
+      this.client._serviceURL("deployments", "list"),
+      undefined,
+      false,
+      requestOptions,
+    );
+    const deploymentsData = await response.json();
 
-      // Handle different response formats
-      if (Array.isArray(deploymentsData)) {
-        return deploymentsData as Deployment[];
-      } else if (
-        deploymentsData &&
-        typeof deploymentsData === "object" &&
-        deploymentsData.deployments
-      ) {
-        return deploymentsData.deployments as Deployment[];
-      } else if (
-        deploymentsData &&
-        typeof deploymentsData === "object" &&
-        Object.keys(deploymentsData).length === 0
-      ) {
-        // Empty object response means no deployments
-        return [];
-      } else {
-        // If it's a different format, return empty array and log the issue
-        console.warn(
-          `Unexpected response format: ${typeof deploymentsData}, content:`,
-          deploymentsData,
-        );
-        return [];
-      }
-    } finally {
-      (this.client as any).baseURL = originalBaseURL;
+    // Handle different response formats
+    if (Array.isArray(deploymentsData)) {
+      return deploymentsData as Deployment[];
+    } else if (
+      deploymentsData &&
+      typeof deploymentsData === "object" &&
+      deploymentsData.deployments
+    ) {
+      return deploymentsData.deployments as Deployment[];
+    } else if (
+      deploymentsData &&
+      typeof deploymentsData === "object" &&
+      Object.keys(deploymentsData).length === 0
+    ) {
+      // Empty object response means no deployments
+      return [];
+    } else {
+      // If it's a different format, return empty array and log the issue
+      this.client.logger.warn(
+        `Unexpected response format: ${typeof deploymentsData}, content:`,
+        deploymentsData,
+      );
+      return [];
     }
   }
 
-  async get(deploymentId: string): Promise<Deployment> {
-    const deployments = await this.list();
+  async get(
+    deploymentId: string,
+    requestOptions?: RequestOptions,
+  ): Promise<Deployment> {
+    const deployments = await this._listAll(requestOptions);
     const deployment = deployments.find(
       (d) =>
         d.deployment_id === deploymentId || d.deployment_name === deploymentId,
@@ -100,26 +115,21 @@ export class Deployments {
     return deployment;
   }
 
-  async listHardware(): Promise<Accelerator[]> {
-    return this.client.accelerators.list();
+  async listHardware(requestOptions?: RequestOptions): Promise<Accelerator[]> {
+    return this.client.accelerators.list(requestOptions);
   }
 
-  async delete(deploymentId: string): Promise<Record<string, any>> {
-    // Use a different base URL for deployments API
-    const originalBaseURL = (this.client as any).baseURL;
-    (this.client as any).baseURL = originalBaseURL.replace(
-      "/v1/inference",
-      "/v1/deployments",
+  async delete(
+    deploymentId: string,
+    requestOptions?: RequestOptions,
+  ): Promise<Record<string, any>> {
+    const response = await this.client._makeRequest(
+      "DELETE",
+      this.client._serviceURL("deployments", `delete/${deploymentId}`),
+      undefined,
+      false,
+      requestOptions,
     );
-
-    try {
-      const response = await this.client._makeRequest(
-        "DELETE",
-        `delete/${deploymentId}`,
-      );
-      return await response.json();
-    } finally {
-      (this.client as any).baseURL = originalBaseURL;
-    }
+    return await response.json();
   }
 }
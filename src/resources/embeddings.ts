@@ -2,9 +2,24 @@ import { GravixLayer } from "../client";
 import {
   EmbeddingResponse,
   EmbeddingCreateParams,
+  EmbeddingCreateManyOptions,
   EmbeddingObject,
   EmbeddingUsage,
 } from "../types/embeddings";
+import {
+  GravixLayerBadRequestError,
+  GravixLayerConnectionError,
+  GravixLayerRateLimitError,
+  GravixLayerServerError,
+} from "../types/exceptions";
+import { RequestOptions } from "../types/transport";
+import { APIPromise } from "../api-promise";
+import { estimateTokens } from "../rate-limits";
+import { decodeEmbedding } from "../embedding-utils";
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_BATCH_RETRIES = 2;
 
 /**
  * Embeddings resource for creating text embeddings.
@@ -15,21 +30,179 @@ import {
 export class Embeddings {
   constructor(private client: GravixLayer) {}
 
-  async create(params: EmbeddingCreateParams): Promise<EmbeddingResponse> {
-    const data: any = {
-      ...params,
-      model: params.model,
-      input: params.input,
+  create(
+    params: EmbeddingCreateParams & { float32: true },
+    requestOptions?: RequestOptions,
+  ): APIPromise<EmbeddingResponse<Float32Array>>;
+  create(
+    params: EmbeddingCreateParams,
+    requestOptions?: RequestOptions,
+  ): APIPromise<EmbeddingResponse>;
+  create(
+    params: EmbeddingCreateParams,
+    requestOptions?: RequestOptions,
+  ): APIPromise<EmbeddingResponse | EmbeddingResponse<Float32Array>> {
+    return new APIPromise(async () => {
+      const { float32, ...rest } = params;
+      const data: any = {
+        ...rest,
+        model: params.model,
+        input: params.input,
+      };
+
+      if (!data.encoding_format) {
+        data.encoding_format = "float";
+      }
+
+      const result = await this.client._cached(
+        "embeddings",
+        data,
+        requestOptions,
+        () => this._create(data, requestOptions),
+      );
+      if (!float32) return result;
+      return {
+        ...result,
+        data: result.data.map((item) => ({
+          ...item,
+          embedding: Float32Array.from(item.embedding),
+        })),
+      };
+    });
+  }
+
+  /**
+   * Embed a corpus of any size. Inputs are split into batches of at most
+   * `batchSize` inputs and `maxTokensPerBatch` estimated tokens, sent
+   * `concurrency` at a time, and reassembled in input order with `index`
+   * pointing into `inputs`.
+   */
+  async createMany(
+    inputs: string[],
+    options: EmbeddingCreateManyOptions,
+    requestOptions?: RequestOptions,
+  ): Promise<EmbeddingResponse> {
+    const {
+      batchSize = DEFAULT_BATCH_SIZE,
+      concurrency = DEFAULT_CONCURRENCY,
+      maxTokensPerBatch,
+      batchRetries = DEFAULT_BATCH_RETRIES,
+      onProgress,
+      ...rest
+    } = options;
+
+    for (const [name, value] of Object.entries({ batchSize, concurrency })) {
+      if (!Number.isInteger(value) || value < 1) {
+        throw new GravixLayerBadRequestError(
+          `${name} must be a positive integer`,
+        );
+      }
+    }
+
+    const batches = splitBatches(inputs, batchSize, maxTokensPerBatch);
+    const results: EmbeddingResponse[] = new Array(batches.length);
+    let nextBatch = 0;
+    let completed = 0;
+    let completedBatches = 0;
+    let failed = false;
+
+    const worker = async () => {
+      while (!failed && nextBatch < batches.length) {
+        const batchIndex = nextBatch++;
+        const { offset, inputs: batch } = batches[batchIndex];
+        try {
+          results[batchIndex] = await this._createBatch(
+            { ...rest, input: batch },
+            batchRetries,
+            requestOptions,
+          );
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+
+        results[batchIndex].data.forEach((item) => {
+          item.index += offset;
+        });
+        completed += batch.length;
+        completedBatches += 1;
+        onProgress?.({
+          completed,
+          total: inputs.length,
+          completedBatches,
+          totalBatches: batches.length,
+        });
+      }
     };
+    await Promise.all(
+      Array.from(
+        { length: Math.max(1, Math.min(concurrency, batches.length)) },
+        worker,
+      ),
+    );
 
-    if (!data.encoding_format) {
-      data.encoding_format = "float";
+    const usage: EmbeddingUsage = { prompt_tokens: 0, total_tokens: 0 };
+    for (const result of results) {
+      usage.prompt_tokens += result.usage?.prompt_tokens || 0;
+      usage.total_tokens += result.usage?.total_tokens || 0;
     }
+    return {
+      object: "list",
+      data: results
+        .flatMap((result) => result.data)
+        .sort((a, b) => a.index - b.index),
+      model: results[0]?.model || rest.model,
+      usage,
+    };
+  }
 
-    const response = await this.client._makeRequest("POST", "embeddings", data);
+  private async _createBatch(
+    params: EmbeddingCreateParams,
+    retries: number,
+    requestOptions?: RequestOptions,
+  ): Promise<EmbeddingResponse> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.create(params, requestOptions);
+      } catch (error) {
+        const transient =
+          error instanceof GravixLayerRateLimitError ||
+          error instanceof GravixLayerServerError ||
+          error instanceof GravixLayerConnectionError;
+        if (
+          !transient ||
+          attempt >= retries ||
+          requestOptions?.signal?.aborted
+        ) {
+          throw error;
+        }
+        await this.client._sleep(
+          Math.pow(2, attempt) * 1000,
+          requestOptions?.signal,
+        );
+      }
+    }
+  }
+
+  private async _create(
+    data: any,
+    requestOptions?: RequestOptions,
+  ): Promise<EmbeddingResponse> {
+    const response = await this.client._makeRequest(
+      "POST",
+      "embeddings",
+      data,
+      false,
+      requestOptions,
+    );
     const responseData = await response.json();
 
-    return this._parseResponse(responseData);
+    const result = this._parseResponse(responseData);
+    this.client.usage.record("embeddings", data.model, result.usage, {
+      user: data.user,
+      tags: requestOptions?.tags,
+    });
+    return result;
   }
 
   private _parseResponse(respData: any): EmbeddingResponse {
@@ -40,7 +213,11 @@ export class Embeddings {
         const item = respData.data[i];
         const embedding: EmbeddingObject = {
           object: item.object || "embedding",
-          embedding: item.embedding || [],
+          // base64 embeddings are little-endian float32 bytes
+          embedding:
+            typeof item.embedding === "string"
+              ? Array.from(decodeEmbedding(item.embedding))
+              : item.embedding || [],
           index: item.index !== undefined ? item.index : i,
         };
         embeddings.push(embedding);
@@ -63,3 +240,37 @@ export class Embeddings {
     };
   }
 }
+
+/**
+ * Split `inputs` into consecutive batches. An input larger than
+ * `maxTokens` on its own still gets a batch of its own.
+ */
+function splitBatches(
+  inputs: string[],
+  batchSize: number,
+  maxTokens?: number,
+): { offset: number; inputs: string[] }[] {
+  const batches: { offset: number; inputs: string[] }[] = [];
+  let current: string[] = [];
+  let offset = 0;
+  let tokens = 0;
+
+  inputs.forEach((text, index) => {
+    const size = estimateTokens({ input: text });
+    const full =
+      current.length >= batchSize ||
+      (maxTokens !== undefined &&
+        current.length > 0 &&
+        tokens + size > maxTokens);
+    if (full) {
+      batches.push({ offset, inputs: current });
+      current = [];
+      offset = index;
+      tokens = 0;
+    }
+    current.push(text);
+    tokens += size;
+  });
+  if (current.length) batches.push({ offset, inputs: current });
+  return batches;
+}
@@ -12,6 +12,9 @@ import {
   GravixLayerBadRequestError,
   GravixLayerAuthenticationError,
 } from "../types/exceptions";
+import { RequestOptions } from "../types/transport";
+import { APIPromise } from "../api-promise";
+import { PagePromise, paginate } from "../pagination";
 
 export class Files {
   constructor(private client: any) {}
@@ -19,86 +22,84 @@ export class Files {
   /**
    * Upload a file for use with AI models.
    */
-  async create(params: FileCreateParams): Promise<FileUploadResponse> {
-    const { file, purpose, expires_after, filename } = params;
-
-    // Validate required parameters
-    if (!file) {
-      throw new GravixLayerBadRequestError("file is required");
-    }
-
-    if (!purpose) {
-      throw new GravixLayerBadRequestError("purpose is required");
-    }
-
-    // Validate purpose
-    if (!FILE_PURPOSES.includes(purpose)) {
-      throw new GravixLayerBadRequestError(
-        `Invalid purpose. Supported: ${FILE_PURPOSES.join(", ")}`,
-      );
-    }
+  create(
+    params: FileCreateParams,
+    requestOptions?: RequestOptions,
+  ): APIPromise<FileUploadResponse> {
+    return new APIPromise(async () => {
+      const { file, purpose, expires_after, filename } = params;
+
+      // Validate required parameters
+      if (!file) {
+        throw new GravixLayerBadRequestError("file is required");
+      }
 
-    // Prepare form data
-    const formData = new FormData();
-    formData.append("purpose", purpose);
+      if (!purpose) {
+        throw new GravixLayerBadRequestError("purpose is required");
+      }
 
-    if (expires_after !== undefined) {
-      if (!Number.isInteger(expires_after) || expires_after <= 0) {
+      // Validate purpose
+      if (!FILE_PURPOSES.includes(purpose)) {
         throw new GravixLayerBadRequestError(
-          "expires_after must be a positive integer (seconds)",
+          `Invalid purpose. Supported: ${FILE_PURPOSES.join(", ")}`,
         );
       }
-      formData.append("expires_after", expires_after.toString());
-    }
-
-    // Handle file input
-    if (typeof file === "string") {
-      // File path
-      try {
-        const stats = statSync(file);
-        if (stats.size === 0) {
-          throw new GravixLayerBadRequestError(
-            "File size must be between 1 byte and 200MB",
-          );
-        }
-        if (stats.size > 200 * 1024 * 1024) {
-          // 200MB
+
+      // Prepare form data
+      const formData = new FormData();
+      formData.append("purpose", purpose);
+
+      if (expires_after !== undefined) {
+        if (!Number.isInteger(expires_after) || expires_after <= 0) {
           throw new GravixLayerBadRequestError(
-            "File size must be between 1 byte and 200MB",
+            "expires_after must be a positive integer (seconds)",
           );
         }
+        formData.append("expires_after", expires_after.toString());
+      }
 
-        const uploadFilename =
-          filename || file.split("/").pop() || "uploaded_file";
-        formData.append("file", createReadStream(file), uploadFilename);
-      } catch (error: any) {
-        if (error.code === "ENOENT") {
-          throw new GravixLayerBadRequestError(`File not found: ${file}`);
+      // Handle file input
+      if (typeof file === "string") {
+        // File path
+        try {
+          const stats = statSync(file);
+          if (stats.size === 0) {
+            throw new GravixLayerBadRequestError(
+              "File size must be between 1 byte and 200MB",
+            );
+          }
+          if (stats.size > 200 * 1024 * 1024) {
+            // 200MB
+            throw new GravixLayerBadRequestError(
+              "File size must be between 1 byte and 200MB",
+            );
+          }
+
+          const uploadFilename =
+            filename || file.split("/").pop() || "uploaded_file";
+          formData.append("file", createReadStream(file), uploadFilename);
+        } catch (error: any) {
+          if (error.code === "ENOENT") {
+            throw new GravixLayerBadRequestError(`File not found: ${file}`);
+          }
+          throw error;
         }
-        throw error;
+      } else if (file instanceof Buffer) {
+        const uploadFilename = filename || "uploaded_file";
+        formData.append("file", file, uploadFilename);
+      } else {
+        // File object or stream
+        const uploadFilename =
+          filename || (file as any).name || "uploaded_file";
+        formData.append("file", file as any, uploadFilename);
       }
-    } else if (file instanceof Buffer) {
-      const uploadFilename = filename || "uploaded_file";
-      formData.append("file", file, uploadFilename);
-    } else {
-      // File object or stream
-      const uploadFilename = filename || (file as any).name || "uploaded_file";
-      formData.append("file", file as any, uploadFilename);
-    }
-
-    // Use files API endpoint
-    const originalBaseURL = this.client.baseURL;
-    this.client.baseURL = this.client.baseURL.replace(
-      "/v1/inference",
-      "/v1/files",
-    );
 
-    try {
       const response = await this.client._makeRequest(
         "POST",
-        "",
+        this.client._serviceURL("files"),
         formData,
         false,
+        requestOptions,
       );
 
       const result = (await response.json()) as any;
@@ -107,65 +108,74 @@ export class Files {
         file_name: result.file_name || result.filename || "",
         purpose: result.purpose || purpose,
       };
-    } finally {
-      this.client.baseURL = originalBaseURL;
-    }
+    });
   }
 
   /**
    * Upload a file for use with AI models (alias for create).
    */
-  async upload(params: FileCreateParams): Promise<FileUploadResponse> {
-    return this.create(params);
+  upload(
+    params: FileCreateParams,
+    requestOptions?: RequestOptions,
+  ): APIPromise<FileUploadResponse> {
+    return this.create(params, requestOptions);
   }
 
   /**
-   * List all files belonging to the user.
+   * List all files belonging to the user. The API returns them all at
+   * once, so the result is a single page.
    */
-  async list(): Promise<FileListResponse> {
-    const originalBaseURL = this.client.baseURL;
-    this.client.baseURL = this.client.baseURL.replace(
-      "/v1/inference",
-      "/v1/files",
+  list(
+    requestOptions?: RequestOptions,
+  ): PagePromise<FileObject, FileListResponse> {
+    return paginate(
+      undefined,
+      async () => {
+        const response = await this.client._makeRequest(
+          "GET",
+          this.client._serviceURL("files"),
+          undefined,
+          false,
+          requestOptions,
+        );
+        const result = await response.json();
+
+        const filesData = result.data || [];
+        const files: FileObject[] = filesData.map((fileData: any) => ({
+          id: fileData.id || "",
+          object: fileData.object || "file",
+          bytes: fileData.bytes || 0,
+          created_at: fileData.created_at || 0,
+          filename: fileData.filename || "",
+          purpose: fileData.purpose || "",
+          expires_after: fileData.expires_after,
+        }));
+
+        return { data: files };
+      },
+      (page) => page.data,
     );
-
-    try {
-      const response = await this.client._makeRequest("GET", "");
-      const result = await response.json();
-
-      const filesData = result.data || [];
-      const files: FileObject[] = filesData.map((fileData: any) => ({
-        id: fileData.id || "",
-        object: fileData.object || "file",
-        bytes: fileData.bytes || 0,
-        created_at: fileData.created_at || 0,
-        filename: fileData.filename || "",
-        purpose: fileData.purpose || "",
-        expires_after: fileData.expires_after,
-      }));
-
-      return { data: files };
-    } finally {
-      this.client.baseURL = originalBaseURL;
-    }
   }
 
   /**
    * Retrieve metadata for a specific file by its ID.
    */
-  async retrieve(fileId: string): Promise<FileObject> {
-    if (!fileId) {
-      throw new GravixLayerBadRequestError("file ID required");
-    }
-
-    const originalBaseURL = this.client.baseURL;
-    this.client.baseURL = this.client.baseURL.replace(
-      "/v1/inference",
-      "/v1/files",
-    );
+  retrieve(
+    fileId: string,
+    requestOptions?: RequestOptions,
+  ): APIPromise<FileObject> {
+    return new APIPromise(async () => {
+      if (!fileId) {
+        throw new GravixLayerBadRequestError("file ID required");
+      }
 
-    try {
-      const response = await this.client._makeRequest("GET", fileId);
+      const response = await this.client._makeRequest(
+        "GET",
+        this.client._serviceURL("files", fileId),
+        undefined,
+        false,
+        requestOptions,
+      );
       const result = await response.json();
 
       return {
@@ -177,29 +187,24 @@ export class Files {
         purpose: result.purpose || "",
         expires_after: result.expires_after,
       };
-    } finally {
-      this.client.baseURL = originalBaseURL;
-    }
+    });
   }
 
   /**
    * Download the actual file content.
    */
-  async content(fileId: string): Promise<Buffer> {
-    if (!fileId) {
-      throw new GravixLayerBadRequestError("file ID required");
-    }
-
-    const originalBaseURL = this.client.baseURL;
-    this.client.baseURL = this.client.baseURL.replace(
-      "/v1/inference",
-      "/v1/files",
-    );
+  content(fileId: string, requestOptions?: RequestOptions): APIPromise<Buffer> {
+    return new APIPromise(async () => {
+      if (!fileId) {
+        throw new GravixLayerBadRequestError("file ID required");
+      }
 
-    try {
       const response = await this.client._makeRequest(
         "GET",
-        `${fileId}/content`,
+        this.client._serviceURL("files", `${fileId}/content`),
+        undefined,
+        false,
+        requestOptions,
       );
 
       if (!response.ok) {
@@ -225,30 +230,28 @@ export class Files {
       }
 
       return Buffer.from(await response.arrayBuffer());
-    } finally {
-      this.client.baseURL = originalBaseURL;
-    }
+    });
   }
 
   /**
    * Download file with enhanced metadata in headers.
    * Alternative to content() that provides additional file metadata in response headers.
    */
-  async download(fileId: string): Promise<Buffer> {
-    if (!fileId) {
-      throw new GravixLayerBadRequestError("file ID required");
-    }
-
-    const originalBaseURL = this.client.baseURL;
-    this.client.baseURL = this.client.baseURL.replace(
-      "/v1/inference",
-      "/v1/files",
-    );
+  download(
+    fileId: string,
+    requestOptions?: RequestOptions,
+  ): APIPromise<Buffer> {
+    return new APIPromise(async () => {
+      if (!fileId) {
+        throw new GravixLayerBadRequestError("file ID required");
+      }
 
-    try {
       const response = await this.client._makeRequest(
         "GET",
-        `${fileId}/download`,
+        this.client._serviceURL("files", `${fileId}/download`),
+        undefined,
+        false,
+        requestOptions,
       );
 
       if (!response.ok) {
@@ -273,27 +276,28 @@ export class Files {
       }
 
       return Buffer.from(await response.arrayBuffer());
-    } finally {
-      this.client.baseURL = originalBaseURL;
-    }
+    });
   }
 
   /**
    * Delete a file permanently. This action cannot be undone.
    */
-  async delete(fileId: string): Promise<FileDeleteResponse> {
-    if (!fileId) {
-      throw new GravixLayerBadRequestError("File ID is required");
-    }
-
-    const originalBaseURL = this.client.baseURL;
-    this.client.baseURL = this.client.baseURL.replace(
-      "/v1/inference",
-      "/v1/files",
-    );
+  delete(
+    fileId: string,
+    requestOptions?: RequestOptions,
+  ): APIPromise<FileDeleteResponse> {
+    return new APIPromise(async () => {
+      if (!fileId) {
+        throw new GravixLayerBadRequestError("File ID is required");
+      }
 
-    try {
-      const response = await this.client._makeRequest("DELETE", fileId);
+      const response = await this.client._makeRequest(
+        "DELETE",
+        this.client._serviceURL("files", fileId),
+        undefined,
+        false,
+        requestOptions,
+      );
       const result = await response.json();
 
       return {
@@ -301,8 +305,6 @@ export class Files {
         file_id: result.file_id || result.id || "",
         file_name: result.file_name || result.filename || "",
       };
-    } finally {
-      this.client.baseURL = originalBaseURL;
-    }
+    });
   }
 }
@@ -19,6 +19,11 @@ import type {
 } from "../../types/memory";
 
 import { MemoryType } from "../../types/memory";
+import type { MetadataFilter } from "../../types/vectors";
+import type { RequestOptions } from "../../types/transport";
+import { Filter } from "../../filters";
+
+type MemoryTypeName = MemoryType | `${MemoryType}`;
 
 export class Memory {
   private client: any;
@@ -85,6 +90,7 @@ export class Memory {
       embeddingModel?: string;
       indexName?: string;
     },
+    requestOptions?: RequestOptions,
   ): Promise<MemoryResponse> {
     const { metadata, infer, embeddingModel, indexName } = options || {};
     const shouldInfer = infer !== undefined ? infer : true;
@@ -98,6 +104,7 @@ export class Memory {
         shouldInfer,
         embeddingModel,
         indexName,
+        requestOptions,
       );
     }
 
@@ -105,7 +112,7 @@ export class Memory {
     const activeEmbeddingModel = embeddingModel || this.currentEmbeddingModel;
     const targetIndex = indexName || this.currentIndexName;
 
-    const indexId = await this.ensureSharedIndex(targetIndex);
+    const indexId = await this.ensureSharedIndex(targetIndex, requestOptions);
     const vectorsClient = this.client.vectors.index(indexId);
 
     // Generate memory ID
@@ -131,6 +138,8 @@ export class Memory {
       activeEmbeddingModel,
       memoryId,
       memoryMetadata,
+      false,
+      requestOptions,
     );
 
     return {
@@ -152,6 +161,7 @@ export class Memory {
     infer?: boolean,
     embeddingModel?: string,
     indexName?: string,
+    requestOptions?: RequestOptions,
   ): Promise<MemoryResponse> {
     const shouldInfer = infer !== undefined ? infer : true;
     const memoryMetadata = metadata || {};
@@ -161,11 +171,12 @@ export class Memory {
       const results = [];
       for (const message of messages) {
         if (message.content) {
-          const result = await this.add(message.content, user_id, {
-            metadata: memoryMetadata,
-            embeddingModel,
-            indexName,
-          });
+          const result = await this.add(
+            message.content,
+            user_id,
+            { metadata: memoryMetadata, embeddingModel, indexName },
+            requestOptions,
+          );
           results.push(...result.results);
         }
       }
@@ -183,11 +194,12 @@ export class Memory {
 
     const results = [];
     for (const memory of inferredMemories) {
-      const result = await this.add(memory, user_id, {
-        metadata: memoryMetadata,
-        embeddingModel,
-        indexName,
-      });
+      const result = await this.add(
+        memory,
+        user_id,
+        { metadata: memoryMetadata, embeddingModel, indexName },
+        requestOptions,
+      );
       results.push(...result.results);
     }
 
@@ -220,7 +232,8 @@ export class Memory {
   }
 
   /**
-   * Search memories using semantic similarity
+   * Search memories using semantic similarity. Results can be narrowed by
+   * memory type, creation date and any extra metadata `filter`.
    */
   async search(
     query: string,
@@ -230,7 +243,12 @@ export class Memory {
       threshold?: number;
       embeddingModel?: string;
       indexName?: string;
+      memoryType?: MemoryTypeName | MemoryTypeName[];
+      createdAfter?: Date | string;
+      createdBefore?: Date | string;
+      filter?: MetadataFilter;
     },
+    requestOptions?: RequestOptions,
   ): Promise<{ results: any[] }> {
     const { limit, threshold, embeddingModel, indexName } = options || {};
     const searchLimit = limit !== undefined ? limit : 100;
@@ -242,7 +260,7 @@ export class Memory {
     const validLimit = Math.max(1, Math.min(1000, searchLimit));
 
     try {
-      const indexId = await this.ensureSharedIndex(targetIndex);
+      const indexId = await this.ensureSharedIndex(targetIndex, requestOptions);
       const vectorsClient = this.client.vectors.index(indexId);
 
       // Handle empty query - use generic query for "get all" behavior
@@ -252,9 +270,10 @@ export class Memory {
         searchQuery,
         activeEmbeddingModel,
         validLimit,
-        { user_id: user_id },
+        this.buildSearchFilter(user_id, options),
         true, // include_metadata
         false, // include_values
+        requestOptions,
       );
 
       const results = [];
@@ -271,7 +290,11 @@ export class Memory {
           hit.score >= searchThreshold
         ) {
           // Update access count
-          await this.incrementAccessCount(vectorsClient, hit.id);
+          await this.incrementAccessCount(
+            vectorsClient,
+            hit.id,
+            requestOptions,
+          );
 
           results.push({
             id: hit.id,
@@ -287,7 +310,7 @@ export class Memory {
 
       return { results };
     } catch (error) {
-      console.error(
+      this.client.logger.error(
         "Search error:",
         error instanceof Error ? error.message : String(error),
       );
@@ -295,17 +318,48 @@ export class Memory {
     }
   }
 
+  private buildSearchFilter(
+    user_id: string,
+    options: {
+      memoryType?: MemoryTypeName | MemoryTypeName[];
+      createdAfter?: Date | string;
+      createdBefore?: Date | string;
+      filter?: MetadataFilter;
+    } = {},
+  ): MetadataFilter {
+    const { memoryType, createdAfter, createdBefore, filter } = options;
+    const conditions: MetadataFilter[] = [{ user_id }];
+
+    if (Array.isArray(memoryType)) {
+      conditions.push(Filter.in("memory_type", memoryType));
+    } else if (memoryType) {
+      conditions.push(Filter.eq("memory_type", memoryType));
+    }
+    // created_at is stored as an ISO string, which sorts chronologically
+    if (createdAfter) {
+      conditions.push(Filter.gte("created_at", new Date(createdAfter)));
+    }
+    if (createdBefore) {
+      conditions.push(Filter.lt("created_at", new Date(createdBefore)));
+    }
+    if (filter) conditions.push(filter);
+
+    return conditions.length === 1 ? conditions[0] : Filter.and(...conditions);
+  }
+
   async getAll(
     user_id: string,
     options?: { limit?: number; indexName?: string },
+    requestOptions?: RequestOptions,
   ): Promise<{ results: any[] }> {
     const { limit, indexName } = options || {};
     const searchLimit = limit !== undefined ? limit : 100;
-    return await this.search("memory", user_id, {
-      limit: searchLimit,
-      threshold: 0.0,
-      indexName,
-    });
+    return await this.search(
+      "memory",
+      user_id,
+      { limit: searchLimit, threshold: 0.0, indexName },
+      requestOptions,
+    );
   }
 
   /**
@@ -315,14 +369,15 @@ export class Memory {
     memory_id: string,
     user_id: string,
     options?: { indexName?: string },
+    requestOptions?: RequestOptions,
   ): Promise<any | null> {
     try {
       const { indexName } = options || {};
       const targetIndex = indexName || this.currentIndexName;
-      const indexId = await this.ensureSharedIndex(targetIndex);
+      const indexId = await this.ensureSharedIndex(targetIndex, requestOptions);
       const vectorsClient = this.client.vectors.index(indexId);
 
-      const vector = await vectorsClient.get(memory_id);
+      const vector = await vectorsClient.get(memory_id, requestOptions);
 
       if (vector?.metadata?.user_id !== user_id) {
         return null;
@@ -354,16 +409,22 @@ export class Memory {
       embeddingModel?: string;
       indexName?: string;
     },
+    requestOptions?: RequestOptions,
   ): Promise<{ message: string }> {
     try {
       const { metadata, importanceScore, embeddingModel, indexName } =
         options || {};
       const targetIndex = indexName || this.currentIndexName;
       const activeEmbeddingModel = embeddingModel || this.currentEmbeddingModel;
-      const indexId = await this.ensureSharedIndex(targetIndex);
+      const indexId = await this.ensureSharedIndex(targetIndex, requestOptions);
 
       // Get current memory and verify ownership
-      const currentMemory = await this.get(memory_id, user_id, { indexName });
+      const currentMemory = await this.get(
+        memory_id,
+        user_id,
+        { indexName },
+        requestOptions,
+      );
       if (!currentMemory) {
         return { message: `Memory ${memory_id} not found or update failed.` };
       }
@@ -391,6 +452,8 @@ export class Memory {
         activeEmbeddingModel,
         memory_id,
         updatedMetadata,
+        false,
+        requestOptions,
       );
 
       return { message: `Memory ${memory_id} updated successfully!` };
@@ -406,20 +469,26 @@ export class Memory {
     memory_id: string,
     user_id: string,
     options?: { indexName?: string },
+    requestOptions?: RequestOptions,
   ): Promise<{ message: string }> {
     try {
       const { indexName } = options || {};
       const targetIndex = indexName || this.currentIndexName;
-      const indexId = await this.ensureSharedIndex(targetIndex);
+      const indexId = await this.ensureSharedIndex(targetIndex, requestOptions);
 
       // Verify memory belongs to user
-      const memory = await this.get(memory_id, user_id, options);
+      const memory = await this.get(
+        memory_id,
+        user_id,
+        options,
+        requestOptions,
+      );
       if (!memory) {
         return { message: `Memory ${memory_id} not found or deletion failed.` };
       }
 
       const vectorsClient = this.client.vectors.index(indexId);
-      await vectorsClient.delete(memory_id);
+      await vectorsClient.delete(memory_id, requestOptions);
       return { message: `Memory ${memory_id} deleted successfully!` };
     } catch (error) {
       return { message: `Memory ${memory_id} not found or deletion failed.` };
@@ -435,7 +504,7 @@ export class Memory {
     region?: string;
   }): void {
     if (!options) {
-      console.log("⚠️  No configuration options provided");
+      this.client.logger.warn("No configuration options provided");
       return;
     }
     const { embeddingModel, inferenceModel, indexName, cloudProvider, region } =
@@ -444,18 +513,19 @@ export class Memory {
     if (embeddingModel) {
       this.currentEmbeddingModel = embeddingModel;
       this.embeddingDimension = this.getEmbeddingDimension(embeddingModel);
-      console.log(`🔄 Switched embedding model to: ${embeddingModel}`);
-      console.log(`📏 Updated dimension to: ${this.embeddingDimension}`);
+      this.client.logger.info(
+        `Switched embedding model to: ${embeddingModel} (dimension ${this.embeddingDimension})`,
+      );
     }
 
     if (inferenceModel) {
       this.currentInferenceModel = inferenceModel;
-      console.log(`🔄 Switched inference model to: ${inferenceModel}`);
+      this.client.logger.info(`Switched inference model to: ${inferenceModel}`);
     }
 
     if (indexName) {
       this.currentIndexName = indexName;
-      console.log(`🔄 Switched to index: ${indexName}`);
+      this.client.logger.info(`Switched to index: ${indexName}`);
     }
 
     if (cloudProvider || region) {
@@ -464,10 +534,13 @@ export class Memory {
         region: region || this.currentCloudConfig.region,
         index_type: "serverless",
       };
-      console.log(`🔄 Switched cloud config:`, this.currentCloudConfig);
+      this.client.logger.info(
+        "Switched cloud config:",
+        this.currentCloudConfig,
+      );
     }
 
-    console.log("✅ Configuration updated successfully");
+    this.client.logger.debug("Configuration updated successfully");
   }
 
   getCurrentConfiguration(): Record<string, any> {
@@ -485,26 +558,39 @@ export class Memory {
   /**
    * Switch to a different memory index
    */
-  async switchIndex(indexName: string): Promise<boolean> {
+  async switchIndex(
+    indexName: string,
+    requestOptions?: RequestOptions,
+  ): Promise<boolean> {
     try {
       // Ensure the index exists (will create if needed)
-      const indexId = await this.ensureSharedIndex(indexName);
+      const indexId = await this.ensureSharedIndex(indexName, requestOptions);
 
       // Update current configuration
       this.currentIndexName = indexName;
-      console.log(`✅ Switched to index: ${indexName} (ID: ${indexId})`);
+      this.client.logger.info(
+        `Switched to index: ${indexName} (ID: ${indexId})`,
+      );
       return true;
     } catch (error) {
-      console.error(`❌ Failed to switch to index '${indexName}':`, error);
+      this.client.logger.error(
+        `Failed to switch to index '${indexName}':`,
+        error,
+      );
       return false;
     }
   }
 
-  async listAvailableIndexes(): Promise<string[]> {
+  async listAvailableIndexes(
+    requestOptions?: RequestOptions,
+  ): Promise<string[]> {
     try {
       const indexList = await this.client._makeRequest(
         "GET",
-        "https://api.gravixlayer.com/v1/vectors/indexes",
+        this.client._serviceURL("vectors", "indexes"),
+        undefined,
+        false,
+        requestOptions,
       );
       const indexData = await indexList.json();
       const indexNames: string[] = [];
@@ -526,7 +612,7 @@ export class Memory {
 
       return indexNames.sort();
     } catch (error) {
-      console.error(
+      this.client.logger.error(
         "Error listing indexes:",
         error instanceof Error ? error.message : String(error),
       );
@@ -541,15 +627,21 @@ export class Memory {
     user_id: string,
     memory_type: MemoryType,
     limit: number,
+    requestOptions?: RequestOptions,
   ): Promise<MemoryEntry[]> {
     try {
-      const allMemories = await this.getAll(user_id, { limit: limit || 1000 });
+      const allMemories = await this.search(
+        "memory",
+        user_id,
+        { limit: limit || 1000, threshold: 0.0, memoryType: memory_type },
+        requestOptions,
+      );
 
       return allMemories.results
-        .filter((memory) => memory.memory_type === memory_type)
+        .filter((memory) => memory.metadata.memory_type === memory_type)
         .slice(0, limit);
     } catch (error) {
-      console.error("getMemoriesByType failed:", error);
+      this.client.logger.error("getMemoriesByType failed:", error);
       return [];
     }
   }
@@ -557,12 +649,16 @@ export class Memory {
   /**
    * Cleanup working memory - Additional method from Python implementation
    */
-  async cleanupWorkingMemory(user_id: string): Promise<number> {
+  async cleanupWorkingMemory(
+    user_id: string,
+    requestOptions?: RequestOptions,
+  ): Promise<number> {
     try {
       const workingMemories = await this.getMemoriesByType(
         user_id,
         MemoryType.WORKING,
         1000,
+        requestOptions,
       );
 
       let cleanedCount = 0;
@@ -572,10 +668,10 @@ export class Memory {
         const createdAt = new Date(memory.created_at);
         if (createdAt < cutoffTime) {
           try {
-            await this.delete(memory.id, user_id);
+            await this.delete(memory.id, user_id, undefined, requestOptions);
             cleanedCount++;
           } catch (error) {
-            console.warn(
+            this.client.logger.warn(
               `Failed to delete expired memory ${memory.id}:`,
               error,
             );
@@ -585,7 +681,7 @@ export class Memory {
 
       return cleanedCount;
     } catch (error) {
-      console.error("cleanupWorkingMemory failed:", error);
+      this.client.logger.error("cleanupWorkingMemory failed:", error);
       return 0;
     }
   }
@@ -598,9 +694,10 @@ export class Memory {
     limit: number,
     sort_by: string,
     ascending: boolean,
+    requestOptions?: RequestOptions,
   ): Promise<MemoryEntry[]> {
     try {
-      const allMemories = await this.getAll(user_id, { limit });
+      const allMemories = await this.getAll(user_id, { limit }, requestOptions);
 
       // Sort memories based on the specified field
       allMemories.results.sort((a, b) => {
@@ -636,7 +733,7 @@ export class Memory {
 
       return allMemories.results;
     } catch (error) {
-      console.error("listAllMemories failed:", error);
+      this.client.logger.error("listAllMemories failed:", error);
       return [];
     }
   }
@@ -644,9 +741,16 @@ export class Memory {
   /**
    * Get memory statistics - Additional method from Python implementation
    */
-  async getStats(user_id: string): Promise<any> {
+  async getStats(
+    user_id: string,
+    requestOptions?: RequestOptions,
+  ): Promise<any> {
     try {
-      const allMemories = await this.getAll(user_id, { limit: 1000 });
+      const allMemories = await this.getAll(
+        user_id,
+        { limit: 1000 },
+        requestOptions,
+      );
 
       const stats = {
         total_memories: allMemories.results.length,
@@ -680,7 +784,7 @@ export class Memory {
 
       return stats;
     } catch (error) {
-      console.error("getStats failed:", error);
+      this.client.logger.error("getStats failed:", error);
       return {
         total_memories: 0,
         factual_count: 0,
@@ -698,15 +802,21 @@ export class Memory {
   private async incrementAccessCount(
     vectorsClient: any,
     memoryId: string,
+    requestOptions?: RequestOptions,
   ): Promise<void> {
     try {
-      const vector = await vectorsClient.get(memoryId);
+      const vector = await vectorsClient.get(memoryId, requestOptions);
       const currentCount = vector.metadata?.access_count || 0;
       // CRITICAL FIX: Update the entire metadata to preserve all fields
       const updatedMetadata = { ...vector.metadata };
       updatedMetadata.access_count = currentCount + 1;
       updatedMetadata.updated_at = new Date().toISOString();
-      await vectorsClient.update(memoryId, updatedMetadata);
+      await vectorsClient.update(
+        memoryId,
+        updatedMetadata,
+        undefined,
+        requestOptions,
+      );
     } catch (error) {
       // Ignore errors in access count updates
     }
@@ -723,7 +833,10 @@ export class Memory {
     );
   }
 
-  private async ensureSharedIndex(targetIndex?: string): Promise<string> {
+  private async ensureSharedIndex(
+    targetIndex?: string,
+    requestOptions?: RequestOptions,
+  ): Promise<string> {
     const targetIndexName = targetIndex || this.currentIndexName;
 
     // Check cache first
@@ -735,7 +848,10 @@ export class Memory {
       // Try to find existing index
       const listResponse = await this.client._makeRequest(
         "GET",
-        "https://api.gravixlayer.com/v1/vectors/indexes",
+        this.client._serviceURL("vectors", "indexes"),
+        undefined,
+        false,
+        requestOptions,
       );
       const indexList = await listResponse.json();
 
@@ -747,11 +863,14 @@ export class Memory {
       }
 
       // Index not found, create it
-      console.log(`\n🔍 Memory index '${targetIndexName}' not found`);
-      console.log(`🎯 Embedding model: ${this.currentEmbeddingModel}`);
-      console.log(`📏 Dimension: ${this.embeddingDimension}`);
-      console.log(`☁️  Cloud config:`, this.currentCloudConfig);
-      console.log(`🚀 Creating memory index...`);
+      this.client.logger.debug(
+        `Memory index '${targetIndexName}' not found, creating it`,
+        {
+          embedding_model: this.currentEmbeddingModel,
+          dimension: this.embeddingDimension,
+          ...this.currentCloudConfig,
+        },
+      );
 
       const createData = {
         name: targetIndexName,
@@ -772,13 +891,15 @@ export class Memory {
 
       const createResponse = await this.client._makeRequest(
         "POST",
-        "https://api.gravixlayer.com/v1/vectors/indexes",
+        this.client._serviceURL("vectors", "indexes"),
         createData,
+        false,
+        requestOptions,
       );
       const result = await createResponse.json();
 
       this.indexCache[targetIndexName] = result.id;
-      console.log(`✅ Successfully created memory index: ${result.id}`);
+      this.client.logger.info(`Created memory index: ${result.id}`);
       return result.id;
     } catch (error) {
       throw new Error(
@@ -793,9 +914,15 @@ export class Memory {
    * Note: This scans through memories to find unique users.
    * For large datasets, this may be slow.
    */
-  async listAllUsers(limit: number = 1000): Promise<string[]> {
+  async listAllUsers(
+    limit: number = 1000,
+    requestOptions?: RequestOptions,
+  ): Promise<string[]> {
     try {
-      const indexId = await this.ensureSharedIndex(this.currentIndexName);
+      const indexId = await this.ensureSharedIndex(
+        this.currentIndexName,
+        requestOptions,
+      );
       const vectorsClient = this.client.vectors.index(indexId);
 
       const searchResults = await vectorsClient.searchText(
@@ -805,6 +932,7 @@ export class Memory {
         null,
         true,
         false,
+        requestOptions,
       );
 
       const uniqueUsers = new Set<string>();
@@ -817,7 +945,7 @@ export class Memory {
 
       return Array.from(uniqueUsers).sort();
     } catch (error) {
-      console.error(
+      this.client.logger.error(
         "Error listing users:",
         error instanceof Error ? error.message : String(error),
       );
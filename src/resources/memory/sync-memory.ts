@@ -81,7 +81,7 @@ export class SyncMemory {
     region?: string;
   }): void {
     if (!options) {
-      console.log("⚠️  No configuration options provided");
+      this.client.logger.warn("No configuration options provided");
       return;
     }
     const { embeddingModel, inferenceModel, indexName, cloudProvider, region } =
@@ -92,13 +92,13 @@ export class SyncMemory {
       this.currentEmbeddingModel = embeddingModel;
       this.embeddingDimension = this.getEmbeddingDimension(embeddingModel);
       configChanged = true;
-      console.log(`Switched embedding model to: ${embeddingModel}`);
+      this.client.logger.info(`Switched embedding model to: ${embeddingModel}`);
     }
 
     if (inferenceModel && inferenceModel !== this.currentInferenceModel) {
       this.currentInferenceModel = inferenceModel;
       configChanged = true;
-      console.log(`Switched inference model to: ${inferenceModel}`);
+      this.client.logger.info(`Switched inference model to: ${inferenceModel}`);
     }
 
     if (indexName && indexName !== this.currentIndexName) {
@@ -106,23 +106,23 @@ export class SyncMemory {
       // Reset cache when switching index
       delete this.indexCache[this.currentIndexName];
       configChanged = true;
-      console.log(`Switched to database: ${indexName}`);
+      this.client.logger.info(`Switched to database: ${indexName}`);
     }
 
     if (cloudProvider && cloudProvider !== this.currentCloudProvider) {
       this.currentCloudProvider = cloudProvider;
       configChanged = true;
-      console.log(`Switched cloud provider to: ${cloudProvider}`);
+      this.client.logger.info(`Switched cloud provider to: ${cloudProvider}`);
     }
 
     if (region && region !== this.currentRegion) {
       this.currentRegion = region;
       configChanged = true;
-      console.log(`Switched region to: ${region}`);
+      this.client.logger.info(`Switched region to: ${region}`);
     }
 
     if (configChanged) {
-      console.log("Configuration updated successfully");
+      this.client.logger.info("Configuration updated successfully");
     }
   }
 
@@ -144,15 +144,12 @@ export class SyncMemory {
     try {
       // Note: This would need to be implemented with synchronous HTTP calls
       // For now, return a basic list
-      console.log(
-        "⚠️  Warning: Synchronous index listing not fully implemented",
-      );
-      console.log(
-        "   Use the async version for full index management capabilities",
+      this.client.logger.warn(
+        "Synchronous index listing not fully implemented. Use the async version for full index management capabilities",
       );
       return [this.currentIndexName];
     } catch (error) {
-      console.error(
+      this.client.logger.error(
         "Error listing indexes:",
         error instanceof Error ? error.message : String(error),
       );
@@ -165,10 +162,13 @@ export class SyncMemory {
       this.currentIndexName = indexName;
       // Reset cache
       delete this.indexCache[indexName];
-      console.log(`Switched to index: ${indexName}`);
+      this.client.logger.info(`Switched to index: ${indexName}`);
       return true;
     } catch (error) {
-      console.error(`Failed to switch to index '${indexName}':`, error);
+      this.client.logger.error(
+        `Failed to switch to index '${indexName}':`,
+        error,
+      );
       return false;
     }
   }
@@ -186,19 +186,15 @@ export class SyncMemory {
     const memoryMetadata = metadata || {};
     // Note: Dynamic model/index switching per operation not supported in sync mode
     if (embeddingModel && embeddingModel !== this.currentEmbeddingModel) {
-      console.log(
-        "⚠️  Warning: Per-operation embedding model override not supported in sync mode",
-      );
-      console.log(
-        "   Use switchConfiguration() to change embedding model globally",
+      this.client.logger.warn(
+        "Per-operation embedding model override not supported in sync mode. Use switchConfiguration() to change embedding model globally",
       );
     }
 
     if (indexName && indexName !== this.currentIndexName) {
-      console.log(
-        "⚠️  Warning: Per-operation index override not supported in sync mode",
+      this.client.logger.warn(
+        "Per-operation index override not supported in sync mode. Use switchIndex() to change index globally",
       );
-      console.log("   Use switchIndex() to change index globally");
     }
 
     // Handle conversation messages
@@ -229,8 +225,9 @@ export class SyncMemory {
     };
 
     // Note: In a real sync implementation, this would use synchronous HTTP calls
-    console.log(`📝 Added memory (sync): ${messages}`);
-    console.log(`🆔 Memory ID: ${memoryId}`);
+    this.client.logger.debug(
+      `Added memory (sync): ${messages} (ID: ${memoryId})`,
+    );
 
     return {
       results: [
@@ -318,20 +315,21 @@ export class SyncMemory {
   ): { results: any[] } {
     // Note: Dynamic model/index switching per operation not supported in sync mode
     if (embeddingModel && embeddingModel !== this.currentEmbeddingModel) {
-      console.log(
-        "⚠️  Warning: Per-operation embedding model override not supported in sync mode",
+      this.client.logger.warn(
+        "Per-operation embedding model override not supported in sync mode",
       );
     }
 
     if (indexName && indexName !== this.currentIndexName) {
-      console.log(
-        "⚠️  Warning: Per-operation index override not supported in sync mode",
+      this.client.logger.warn(
+        "Per-operation index override not supported in sync mode",
       );
     }
 
     // Note: In a real sync implementation, this would use synchronous HTTP calls
-    console.log(`🔍 Searching (sync): "${query}" for user ${user_id}`);
-    console.log(`📊 Limit: ${limit}, Threshold: ${threshold}`);
+    this.client.logger.debug(
+      `Searching (sync): "${query}" for user ${user_id}, limit: ${limit}, threshold: ${threshold}`,
+    );
 
     // Return empty results for now - would be implemented with sync HTTP calls
     return { results: [] };
@@ -339,13 +337,15 @@ export class SyncMemory {
 
   get(memory_id: string, user_id: string, indexName?: string): any | null {
     if (indexName && indexName !== this.currentIndexName) {
-      console.log(
-        "⚠️  Warning: Per-operation index override not supported in sync mode",
+      this.client.logger.warn(
+        "Per-operation index override not supported in sync mode",
       );
     }
 
     // Note: In a real sync implementation, this would use synchronous HTTP calls
-    console.log(`📖 Getting memory (sync): ${memory_id} for user ${user_id}`);
+    this.client.logger.debug(
+      `Getting memory (sync): ${memory_id} for user ${user_id}`,
+    );
 
     return null; // Would be implemented with sync HTTP calls
   }
@@ -356,14 +356,14 @@ export class SyncMemory {
     indexName?: string,
   ): { results: any[] } {
     if (indexName && indexName !== this.currentIndexName) {
-      console.log(
-        "⚠️  Warning: Per-operation index override not supported in sync mode",
+      this.client.logger.warn(
+        "Per-operation index override not supported in sync mode",
       );
     }
 
     // Note: In a real sync implementation, this would use synchronous HTTP calls
-    console.log(
-      `📚 Getting all memories (sync) for user ${user_id}, limit: ${limit}`,
+    this.client.logger.debug(
+      `Getting all memories (sync) for user ${user_id}, limit: ${limit}`,
     );
 
     return { results: [] }; // Would be implemented with sync HTTP calls
@@ -376,14 +376,16 @@ export class SyncMemory {
     indexName?: string,
   ): { message: string } {
     if (indexName && indexName !== this.currentIndexName) {
-      console.log(
-        "⚠️  Warning: Per-operation index override not supported in sync mode",
+      this.client.logger.warn(
+        "Per-operation index override not supported in sync mode",
       );
     }
 
     // Note: In a real sync implementation, this would use synchronous HTTP calls
-    console.log(`✏️  Updating memory (sync): ${memory_id} for user ${user_id}`);
-    console.log(`📝 New content: ${data}`);
+    this.client.logger.debug(
+      `Updating memory (sync): ${memory_id} for user ${user_id}`,
+      { content: data },
+    );
 
     return { message: `Memory ${memory_id} updated successfully!` };
   }
@@ -394,20 +396,24 @@ export class SyncMemory {
     indexName?: string,
   ): { message: string } {
     if (indexName && indexName !== this.currentIndexName) {
-      console.log(
-        "⚠️  Warning: Per-operation index override not supported in sync mode",
+      this.client.logger.warn(
+        "Per-operation index override not supported in sync mode",
       );
     }
 
     // Note: In a real sync implementation, this would use synchronous HTTP calls
-    console.log(`🗑️  Deleting memory (sync): ${memory_id} for user ${user_id}`);
+    this.client.logger.debug(
+      `Deleting memory (sync): ${memory_id} for user ${user_id}`,
+    );
 
     return { message: `Memory ${memory_id} deleted successfully!` };
   }
 
   deleteAll(user_id: string): { message: string } {
     // Note: In a real sync implementation, this would use synchronous HTTP calls
-    console.log(`🗑️  Deleting all memories (sync) for user ${user_id}`);
+    this.client.logger.debug(
+      `Deleting all memories (sync) for user ${user_id}`,
+    );
 
     return { message: `Deleted memories for user ${user_id}` };
   }
@@ -465,16 +471,17 @@ export class SyncMemory {
     top_k: number = 10,
     min_relevance: number = 0.7,
   ): any[] {
-    console.log(`🔍 Searching memories (sync): "${query}" for user ${user_id}`);
-    console.log(
-      `🎯 Types: ${memory_types?.join(", ") || "all"}, Top K: ${top_k}, Min relevance: ${min_relevance}`,
+    this.client.logger.debug(
+      `Searching memories (sync): "${query}" for user ${user_id}, types: ${memory_types?.join(", ") || "all"}, top k: ${top_k}, min relevance: ${min_relevance}`,
     );
 
     return []; // Would be implemented with sync HTTP calls
   }
 
   getMemory(memory_id: string, user_id: string): MemoryEntry | null {
-    console.log(`📖 Getting memory (sync): ${memory_id} for user ${user_id}`);
+    this.client.logger.debug(
+      `Getting memory (sync): ${memory_id} for user ${user_id}`,
+    );
     return null; // Would be implemented with sync HTTP calls
   }
 
@@ -485,12 +492,16 @@ export class SyncMemory {
     metadata?: Record<string, any>,
     importance_score?: number,
   ): MemoryEntry | null {
-    console.log(`✏️  Updating memory (sync): ${memory_id} for user ${user_id}`);
+    this.client.logger.debug(
+      `Updating memory (sync): ${memory_id} for user ${user_id}`,
+    );
     return null; // Would be implemented with sync HTTP calls
   }
 
   deleteMemory(memory_id: string, user_id: string): boolean {
-    console.log(`🗑️  Deleting memory (sync): ${memory_id} for user ${user_id}`);
+    this.client.logger.debug(
+      `Deleting memory (sync): ${memory_id} for user ${user_id}`,
+    );
     return true; // Would be implemented with sync HTTP calls
   }
 
@@ -499,8 +510,8 @@ export class SyncMemory {
     memory_type: MemoryType,
     limit: number,
   ): MemoryEntry[] {
-    console.log(
-      `📚 Getting memories by type (sync): ${memory_type} for user ${user_id}, limit: ${limit}`,
+    this.client.logger.debug(
+      `Getting memories by type (sync): ${memory_type} for user ${user_id}, limit: ${limit}`,
     );
     return []; // Would be implemented with sync HTTP calls
   }
@@ -511,20 +522,21 @@ export class SyncMemory {
     sort_by: string,
     ascending: boolean,
   ): MemoryEntry[] {
-    console.log(`📋 Listing all memories (sync) for user ${user_id}`);
-    console.log(
-      `📊 Limit: ${limit}, Sort by: ${sort_by}, Ascending: ${ascending}`,
+    this.client.logger.debug(
+      `Listing all memories (sync) for user ${user_id}, limit: ${limit}, sort by: ${sort_by}, ascending: ${ascending}`,
     );
     return []; // Would be implemented with sync HTTP calls
   }
 
   cleanupWorkingMemory(user_id: string): number {
-    console.log(`🧹 Cleaning up working memory (sync) for user ${user_id}`);
+    this.client.logger.debug(
+      `Cleaning up working memory (sync) for user ${user_id}`,
+    );
     return 0; // Would be implemented with sync HTTP calls
   }
 
   getStats(user_id: string): any {
-    console.log(`📊 Getting memory stats (sync) for user ${user_id}`);
+    this.client.logger.debug(`Getting memory stats (sync) for user ${user_id}`);
     return {
       total_memories: 0,
       factual_count: 0,
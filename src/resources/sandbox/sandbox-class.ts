@@ -3,6 +3,7 @@
  */
 import { GravixLayer } from "../../client";
 import { Execution } from "../../types/sandbox";
+import { RequestOptions } from "../../types/transport";
 import type {
   Sandbox as SandboxType,
   CodeRunResponse,
@@ -48,27 +49,33 @@ export class Sandbox implements SandboxType {
   /**
    * Create a new sandbox instance with simplified interface
    */
-  static async create(options?: {
-    template?: string;
-    provider?: string;
-    region?: string;
-    timeout?: number;
-    metadata?: Record<string, any>;
-    apiKey?: string;
-    baseURL?: string;
-  }): Promise<Sandbox> {
+  static async create(
+    options?: {
+      template?: string;
+      provider?: string;
+      region?: string;
+      timeout?: number;
+      metadata?: Record<string, any>;
+      apiKey?: string;
+      baseURL?: string;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<Sandbox> {
     const client = new GravixLayer({
       apiKey: options?.apiKey,
       baseURL: options?.baseURL,
     });
 
-    const sandboxResponse = await client.sandbox.sandboxes.create({
-      provider: options?.provider || "gravix",
-      region: options?.region || "eu-west-1",
-      template: options?.template || "python-base-v1",
-      timeout: options?.timeout || 300,
-      metadata: options?.metadata || {},
-    });
+    const sandboxResponse = await client.sandbox.sandboxes.create(
+      {
+        provider: options?.provider || "gravix",
+        region: options?.region || "eu-west-1",
+        template: options?.template || "python-base-v1",
+        timeout: options?.timeout || 300,
+        metadata: options?.metadata || {},
+      },
+      requestOptions,
+    );
 
     const instance = new Sandbox(sandboxResponse);
     instance._client = client;
@@ -79,7 +86,11 @@ export class Sandbox implements SandboxType {
   /**
    * Execute code in the sandbox
    */
-  async runCode(code: string, language: string = "python"): Promise<Execution> {
+  async runCode(
+    code: string,
+    language: string = "python",
+    requestOptions?: RequestOptions,
+  ): Promise<Execution> {
     if (!this._alive) {
       throw new Error("Sandbox has been terminated");
     }
@@ -94,6 +105,7 @@ export class Sandbox implements SandboxType {
       this.sandbox_id,
       code,
       { language },
+      requestOptions,
     );
 
     return new Execution(response);
@@ -109,6 +121,7 @@ export class Sandbox implements SandboxType {
       working_dir?: string;
       timeout?: number;
     },
+    requestOptions?: RequestOptions,
   ): Promise<Execution> {
     if (!this._alive) {
       throw new Error("Sandbox has been terminated");
@@ -128,6 +141,7 @@ export class Sandbox implements SandboxType {
         working_dir: options?.working_dir,
         timeout: options?.timeout,
       },
+      requestOptions,
     );
 
     return new Execution(response);
@@ -136,7 +150,11 @@ export class Sandbox implements SandboxType {
   /**
    * Write content to a file in the sandbox
    */
-  async writeFile(path: string, content: string): Promise<void> {
+  async writeFile(
+    path: string,
+    content: string,
+    requestOptions?: RequestOptions,
+  ): Promise<void> {
     if (!this._alive) {
       throw new Error("Sandbox has been terminated");
     }
@@ -151,13 +169,17 @@ export class Sandbox implements SandboxType {
       this.sandbox_id,
       path,
       content,
+      requestOptions,
     );
   }
 
   /**
    * Read content from a file in the sandbox
    */
-  async readFile(path: string): Promise<string> {
+  async readFile(
+    path: string,
+    requestOptions?: RequestOptions,
+  ): Promise<string> {
     if (!this._alive) {
       throw new Error("Sandbox has been terminated");
     }
@@ -171,6 +193,7 @@ export class Sandbox implements SandboxType {
     const response = await this._client.sandbox.sandboxes.readFile(
       this.sandbox_id,
       path,
+      requestOptions,
     );
     return response.content;
   }
@@ -178,7 +201,10 @@ export class Sandbox implements SandboxType {
   /**
    * List files in a directory
    */
-  async listFiles(path: string = "/home/user"): Promise<string[]> {
+  async listFiles(
+    path: string = "/home/user",
+    requestOptions?: RequestOptions,
+  ): Promise<string[]> {
     if (!this._alive) {
       throw new Error("Sandbox has been terminated");
     }
@@ -192,6 +218,7 @@ export class Sandbox implements SandboxType {
     const response = await this._client.sandbox.sandboxes.listFiles(
       this.sandbox_id,
       path,
+      requestOptions,
     );
     return response.files.map((f) => f.name);
   }
@@ -199,7 +226,10 @@ export class Sandbox implements SandboxType {
   /**
    * Delete a file in the sandbox
    */
-  async deleteFile(path: string): Promise<void> {
+  async deleteFile(
+    path: string,
+    requestOptions?: RequestOptions,
+  ): Promise<void> {
     if (!this._alive) {
       throw new Error("Sandbox has been terminated");
     }
@@ -210,13 +240,21 @@ export class Sandbox implements SandboxType {
       );
     }
 
-    await this._client.sandbox.sandboxes.deleteFile(this.sandbox_id, path);
+    await this._client.sandbox.sandboxes.deleteFile(
+      this.sandbox_id,
+      path,
+      requestOptions,
+    );
   }
 
   /**
    * Upload a local file to the sandbox
    */
-  async uploadFile(file: File | Buffer, remotePath: string): Promise<void> {
+  async uploadFile(
+    file: File | Buffer,
+    remotePath: string,
+    requestOptions?: RequestOptions,
+  ): Promise<void> {
     if (!this._alive) {
       throw new Error("Sandbox has been terminated");
     }
@@ -231,16 +269,20 @@ export class Sandbox implements SandboxType {
       this.sandbox_id,
       file,
       remotePath,
+      requestOptions,
     );
   }
 
   /**
    * Terminate the sandbox and clean up resources
    */
-  async kill(): Promise<void> {
+  async kill(requestOptions?: RequestOptions): Promise<void> {
     if (this._alive && this._client) {
       try {
-        await this._client.sandbox.sandboxes.kill(this.sandbox_id);
+        await this._client.sandbox.sandboxes.kill(
+          this.sandbox_id,
+          requestOptions,
+        );
       } catch (error) {
         // Ignore errors during cleanup
       }
@@ -251,13 +293,16 @@ export class Sandbox implements SandboxType {
   /**
    * Check if the sandbox is still running
    */
-  async isAlive(): Promise<boolean> {
+  async isAlive(requestOptions?: RequestOptions): Promise<boolean> {
     if (!this._alive || !this._client) {
       return false;
     }
 
     try {
-      const info = await this._client.sandbox.sandboxes.get(this.sandbox_id);
+      const info = await this._client.sandbox.sandboxes.get(
+        this.sandbox_id,
+        requestOptions,
+      );
       return info.status === "running";
     } catch {
       this._alive = false;
@@ -22,105 +22,133 @@ import {
   SandboxKillResponse,
   FileInfo,
 } from "../../types/sandbox";
+import { RequestOptions } from "../../types/transport";
+import { APIPromise } from "../../api-promise";
+import { PagePromise, nextOffset, paginate } from "../../pagination";
 
 export class Sandboxes {
   private client: GravixLayer;
-  private _agentsBaseUrl?: string;
 
   constructor(client: GravixLayer) {
     this.client = client;
   }
 
-  private getAgentsBaseUrl(): string {
-    if (!this._agentsBaseUrl) {
-      // Replace /v1/inference with /v1/agents for agent endpoints
-      this._agentsBaseUrl = this.client["baseURL"].replace(
-        "/v1/inference",
-        "/v1/agents",
-      );
-    }
-    return this._agentsBaseUrl;
-  }
-
   private async makeAgentsRequest(
     method: string,
     endpoint: string,
     data?: any,
-    options?: any,
+    requestOptions?: RequestOptions,
   ): Promise<any> {
-    const originalBaseUrl = this.client["baseURL"];
-    this.client["baseURL"] = this.getAgentsBaseUrl();
-
-    try {
-      const response = await this.client["_makeRequest"](
-        method,
-        endpoint,
-        data,
-        false,
-        options,
-      );
-      return await response.json();
-    } finally {
-      this.client["baseURL"] = originalBaseUrl;
-    }
+    const response = await this.client["_makeRequest"](
+      method,
+      this.client._serviceURL("agents", endpoint),
+      data,
+      false,
+      requestOptions,
+    );
+    return await response.json();
   }
 
   // Sandbox Lifecycle Methods
 
-  async create(options: {
-    provider: string;
-    region: string;
-    template?: string;
-    timeout?: number;
-    env_vars?: Record<string, string>;
-    metadata?: Record<string, any>;
-  }): Promise<Sandbox> {
-    const data = {
-      provider: options.provider,
-      region: options.region,
-      template: options.template || "python-base-v1",
-      timeout: options.timeout || 300,
-      ...(options.env_vars && { env_vars: options.env_vars }),
-      ...(options.metadata && { metadata: options.metadata }),
-    };
-
-    const result = await this.makeAgentsRequest("POST", "sandboxes", data);
+  create(
+    options: {
+      provider: string;
+      region: string;
+      template?: string;
+      timeout?: number;
+      env_vars?: Record<string, string>;
+      metadata?: Record<string, any>;
+    },
+    requestOptions?: RequestOptions,
+  ): APIPromise<Sandbox> {
+    return new APIPromise(async () => {
+      const data = {
+        provider: options.provider,
+        region: options.region,
+        template: options.template || "python-base-v1",
+        timeout: options.timeout || 300,
+        ...(options.env_vars && { env_vars: options.env_vars }),
+        ...(options.metadata && { metadata: options.metadata }),
+      };
+
+      const result = await this.makeAgentsRequest(
+        "POST",
+        "sandboxes",
+        data,
+        requestOptions,
+      );
 
-    // Ensure all fields have defaults if missing
-    const defaults = {
-      metadata: {},
-      template: options.template || "python-base-v1",
-      template_id: null,
-      started_at: null,
-      timeout_at: null,
-      cpu_count: null,
-      memory_mb: null,
-      ended_at: null,
-    };
+      // Ensure all fields have defaults if missing
+      const defaults = {
+        metadata: {},
+        template: options.template || "python-base-v1",
+        template_id: null,
+        started_at: null,
+        timeout_at: null,
+        cpu_count: null,
+        memory_mb: null,
+        ended_at: null,
+      };
 
-    for (const [key, defaultValue] of Object.entries(defaults)) {
-      if (!(key in result) || result[key] === null) {
-        result[key] = defaultValue;
+      for (const [key, defaultValue] of Object.entries(defaults)) {
+        if (!(key in result) || result[key] === null) {
+          result[key] = defaultValue;
+        }
       }
-    }
 
-    return result as Sandbox;
+      return result as Sandbox;
+    });
+  }
+
+  /**
+   * List sandboxes a page at a time. Iterate the result with `for await`
+   * to go through all of them.
+   */
+  list(
+    options: {
+      limit?: number;
+      offset?: number;
+    } = {},
+    requestOptions?: RequestOptions,
+  ): PagePromise<Sandbox, SandboxList> {
+    return paginate(
+      options,
+      (pageOptions) => this._listPage(pageOptions, requestOptions),
+      (page) => page.sandboxes,
+      (page, pageOptions) => {
+        const offset = nextOffset(
+          pageOptions.offset || 0,
+          page.sandboxes.length,
+          { total: page.total },
+        );
+        return offset === undefined ? undefined : { ...pageOptions, offset };
+      },
+    );
   }
 
-  async list(options?: {
-    limit?: number;
-    offset?: number;
-  }): Promise<SandboxList> {
+  private async _listPage(
+    options: {
+      limit?: number;
+      offset?: number;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<SandboxList> {
     const params = new URLSearchParams();
-    if (options?.limit !== undefined)
+    if (options.limit !== undefined)
       params.append("limit", options.limit.toString());
-    if (options?.offset !== undefined)
+    if (options.offset !== undefined)
       params.append("offset", options.offset.toString());
 
     const endpoint = params.toString()
       ? `sandboxes?${params.toString()}`
       : "sandboxes";
-    const result = await this.makeAgentsRequest("GET", endpoint);
+    const result = await this.makeAgentsRequest(
+      "GET",
+      endpoint,
+      undefined,
+      requestOptions,
+    );
 
     // Fix missing fields for each sandbox
     const defaults = {
@@ -149,198 +177,256 @@ export class Sandboxes {
     };
   }
 
-  async get(sandboxId: string): Promise<Sandbox> {
-    const result = await this.makeAgentsRequest(
-      "GET",
-      `sandboxes/${sandboxId}`,
-    );
+  get(sandboxId: string, requestOptions?: RequestOptions): APIPromise<Sandbox> {
+    return new APIPromise(async () => {
+      const result = await this.makeAgentsRequest(
+        "GET",
+        `sandboxes/${sandboxId}`,
+        undefined,
+        requestOptions,
+      );
 
-    // Ensure all fields have defaults if missing
-    const defaults = {
-      metadata: {},
-      template: null,
-      template_id: null,
-      started_at: null,
-      timeout_at: null,
-      cpu_count: null,
-      memory_mb: null,
-      ended_at: null,
-    };
+      // Ensure all fields have defaults if missing
+      const defaults = {
+        metadata: {},
+        template: null,
+        template_id: null,
+        started_at: null,
+        timeout_at: null,
+        cpu_count: null,
+        memory_mb: null,
+        ended_at: null,
+      };
 
-    for (const [key, defaultValue] of Object.entries(defaults)) {
-      if (!(key in result) || result[key] === null) {
-        result[key] = defaultValue;
+      for (const [key, defaultValue] of Object.entries(defaults)) {
+        if (!(key in result) || result[key] === null) {
+          result[key] = defaultValue;
+        }
       }
-    }
 
-    return result as Sandbox;
+      return result as Sandbox;
+    });
   }
 
-  async kill(sandboxId: string): Promise<SandboxKillResponse> {
-    const result = await this.makeAgentsRequest(
-      "DELETE",
-      `sandboxes/${sandboxId}`,
-    );
-    return result as SandboxKillResponse;
+  kill(
+    sandboxId: string,
+    requestOptions?: RequestOptions,
+  ): APIPromise<SandboxKillResponse> {
+    return new APIPromise(async () => {
+      const result = await this.makeAgentsRequest(
+        "DELETE",
+        `sandboxes/${sandboxId}`,
+        undefined,
+        requestOptions,
+      );
+      return result as SandboxKillResponse;
+    });
   }
 
   // Sandbox Configuration Methods
 
-  async setTimeout(
+  setTimeout(
     sandboxId: string,
     timeout: number,
-  ): Promise<SandboxTimeoutResponse> {
-    const data = { timeout };
-    const result = await this.makeAgentsRequest(
-      "POST",
-      `sandboxes/${sandboxId}/timeout`,
-      data,
-    );
-    return result as SandboxTimeoutResponse;
+    requestOptions?: RequestOptions,
+  ): APIPromise<SandboxTimeoutResponse> {
+    return new APIPromise(async () => {
+      const data = { timeout };
+      const result = await this.makeAgentsRequest(
+        "POST",
+        `sandboxes/${sandboxId}/timeout`,
+        data,
+        requestOptions,
+      );
+      return result as SandboxTimeoutResponse;
+    });
   }
 
-  async getMetrics(sandboxId: string): Promise<SandboxMetrics> {
-    const result = await this.makeAgentsRequest(
-      "GET",
-      `sandboxes/${sandboxId}/metrics`,
-    );
-    return result as SandboxMetrics;
+  getMetrics(
+    sandboxId: string,
+    requestOptions?: RequestOptions,
+  ): APIPromise<SandboxMetrics> {
+    return new APIPromise(async () => {
+      const result = await this.makeAgentsRequest(
+        "GET",
+        `sandboxes/${sandboxId}/metrics`,
+        undefined,
+        requestOptions,
+      );
+      return result as SandboxMetrics;
+    });
   }
 
-  async getHostUrl(sandboxId: string, port: number): Promise<SandboxHostURL> {
-    const result = await this.makeAgentsRequest(
-      "GET",
-      `sandboxes/${sandboxId}/host/${port}`,
-    );
-    return result as SandboxHostURL;
+  getHostUrl(
+    sandboxId: string,
+    port: number,
+    requestOptions?: RequestOptions,
+  ): APIPromise<SandboxHostURL> {
+    return new APIPromise(async () => {
+      const result = await this.makeAgentsRequest(
+        "GET",
+        `sandboxes/${sandboxId}/host/${port}`,
+        undefined,
+        requestOptions,
+      );
+      return result as SandboxHostURL;
+    });
   }
 
   // File Operations Methods
 
-  async readFile(sandboxId: string, path: string): Promise<FileReadResponse> {
-    const data = { path };
-    const result = await this.makeAgentsRequest(
-      "POST",
-      `sandboxes/${sandboxId}/files/read`,
-      data,
-    );
-    return result as FileReadResponse;
+  readFile(
+    sandboxId: string,
+    path: string,
+    requestOptions?: RequestOptions,
+  ): APIPromise<FileReadResponse> {
+    return new APIPromise(async () => {
+      const data = { path };
+      const result = await this.makeAgentsRequest(
+        "POST",
+        `sandboxes/${sandboxId}/files/read`,
+        data,
+        requestOptions,
+      );
+      return result as FileReadResponse;
+    });
   }
 
-  async writeFile(
+  writeFile(
     sandboxId: string,
     path: string,
     content: string,
-  ): Promise<FileWriteResponse> {
-    const data = { path, content };
-    const result = await this.makeAgentsRequest(
-      "POST",
-      `sandboxes/${sandboxId}/files/write`,
-      data,
-    );
-    return result as FileWriteResponse;
+    requestOptions?: RequestOptions,
+  ): APIPromise<FileWriteResponse> {
+    return new APIPromise(async () => {
+      const data = { path, content };
+      const result = await this.makeAgentsRequest(
+        "POST",
+        `sandboxes/${sandboxId}/files/write`,
+        data,
+        requestOptions,
+      );
+      return result as FileWriteResponse;
+    });
   }
 
-  async listFiles(sandboxId: string, path: string): Promise<FileListResponse> {
-    const data = { path };
-    const result = await this.makeAgentsRequest(
-      "POST",
-      `sandboxes/${sandboxId}/files/list`,
-      data,
-    );
+  listFiles(
+    sandboxId: string,
+    path: string,
+    requestOptions?: RequestOptions,
+  ): APIPromise<FileListResponse> {
+    return new APIPromise(async () => {
+      const data = { path };
+      const result = await this.makeAgentsRequest(
+        "POST",
+        `sandboxes/${sandboxId}/files/list`,
+        data,
+        requestOptions,
+      );
 
-    // Filter and map file info fields
-    const files: FileInfo[] = result.files.map((fileInfo: any) => ({
-      name: fileInfo.name || "",
-      path: fileInfo.path || "",
-      size: fileInfo.size || 0,
-      is_dir: fileInfo.is_dir || false,
-      modified_at: fileInfo.modified_at || fileInfo.mod_time || "",
-      mode: fileInfo.mode,
-    }));
-
-    return { files };
+      // Filter and map file info fields
+      const files: FileInfo[] = result.files.map((fileInfo: any) => ({
+        name: fileInfo.name || "",
+        path: fileInfo.path || "",
+        size: fileInfo.size || 0,
+        is_dir: fileInfo.is_dir || false,
+        modified_at: fileInfo.modified_at || fileInfo.mod_time || "",
+        mode: fileInfo.mode,
+      }));
+
+      return { files };
+    });
   }
 
-  async deleteFile(
+  deleteFile(
     sandboxId: string,
     path: string,
-  ): Promise<FileDeleteResponse> {
-    const data = { path };
-    const result = await this.makeAgentsRequest(
-      "POST",
-      `sandboxes/${sandboxId}/files/delete`,
-      data,
-    );
-    return result as FileDeleteResponse;
+    requestOptions?: RequestOptions,
+  ): APIPromise<FileDeleteResponse> {
+    return new APIPromise(async () => {
+      const data = { path };
+      const result = await this.makeAgentsRequest(
+        "POST",
+        `sandboxes/${sandboxId}/files/delete`,
+        data,
+        requestOptions,
+      );
+      return result as FileDeleteResponse;
+    });
   }
 
-  async makeDirectory(
+  makeDirectory(
     sandboxId: string,
     path: string,
-  ): Promise<DirectoryCreateResponse> {
-    const data = { path };
-    const result = await this.makeAgentsRequest(
-      "POST",
-      `sandboxes/${sandboxId}/files/mkdir`,
-      data,
-    );
-    return result as DirectoryCreateResponse;
+    requestOptions?: RequestOptions,
+  ): APIPromise<DirectoryCreateResponse> {
+    return new APIPromise(async () => {
+      const data = { path };
+      const result = await this.makeAgentsRequest(
+        "POST",
+        `sandboxes/${sandboxId}/files/mkdir`,
+        data,
+        requestOptions,
+      );
+      return result as DirectoryCreateResponse;
+    });
   }
 
-  async uploadFile(
+  uploadFile(
     sandboxId: string,
     file: File | Buffer,
     path?: string,
-  ): Promise<FileUploadResponse> {
-    const formData = new FormData();
-
-    if (file instanceof Buffer) {
-      formData.append("file", file, "uploaded_file");
-    } else {
-      formData.append("file", file);
-    }
-
-    if (path) {
-      formData.append("path", path);
-    }
+    requestOptions?: RequestOptions,
+  ): APIPromise<FileUploadResponse> {
+    return new APIPromise(async () => {
+      const formData = new FormData();
+
+      if (file instanceof Buffer) {
+        formData.append("file", file, "uploaded_file");
+      } else {
+        formData.append("file", file);
+      }
 
-    const originalBaseUrl = this.client["baseURL"];
-    this.client["baseURL"] = this.getAgentsBaseUrl();
+      if (path) {
+        formData.append("path", path);
+      }
 
-    try {
       const response = await this.client["_makeRequest"](
         "POST",
-        `sandboxes/${sandboxId}/upload`,
+        this.client._serviceURL("agents", `sandboxes/${sandboxId}/upload`),
         formData,
         false,
         {
-          headers: formData.getHeaders(),
+          ...requestOptions,
+          headers: { ...formData.getHeaders(), ...requestOptions?.headers },
         },
       );
       return (await response.json()) as FileUploadResponse;
-    } finally {
-      this.client["baseURL"] = originalBaseUrl;
-    }
+    });
   }
 
-  async downloadFile(sandboxId: string, path: string): Promise<Buffer> {
-    const endpoint = `sandboxes/${sandboxId}/download?path=${encodeURIComponent(path)}`;
-
-    const originalBaseUrl = this.client["baseURL"];
-    this.client["baseURL"] = this.getAgentsBaseUrl();
+  downloadFile(
+    sandboxId: string,
+    path: string,
+    requestOptions?: RequestOptions,
+  ): APIPromise<Buffer> {
+    return new APIPromise(async () => {
+      const endpoint = `sandboxes/${sandboxId}/download?path=${encodeURIComponent(path)}`;
 
-    try {
-      const response = await this.client["_makeRequest"]("GET", endpoint);
+      const response = await this.client["_makeRequest"](
+        "GET",
+        this.client._serviceURL("agents", endpoint),
+        undefined,
+        false,
+        requestOptions,
+      );
       return Buffer.from(await response.arrayBuffer());
-    } finally {
-      this.client["baseURL"] = originalBaseUrl;
-    }
+    });
   }
 
   // Command Execution Methods
 
-  async runCommand(
+  runCommand(
     sandboxId: string,
     command: string,
     options?: {
@@ -349,24 +435,28 @@ export class Sandboxes {
       environment?: Record<string, string>;
       timeout?: number;
     },
-  ): Promise<CommandRunResponse> {
-    const data: any = { command };
-    if (options?.args) data.args = options.args;
-    if (options?.working_dir) data.working_dir = options.working_dir;
-    if (options?.environment) data.environment = options.environment;
-    if (options?.timeout) data.timeout = options.timeout;
-
-    const result = await this.makeAgentsRequest(
-      "POST",
-      `sandboxes/${sandboxId}/commands/run`,
-      data,
-    );
-    return result as CommandRunResponse;
+    requestOptions?: RequestOptions,
+  ): APIPromise<CommandRunResponse> {
+    return new APIPromise(async () => {
+      const data: any = { command };
+      if (options?.args) data.args = options.args;
+      if (options?.working_dir) data.working_dir = options.working_dir;
+      if (options?.environment) data.environment = options.environment;
+      if (options?.timeout) data.timeout = options.timeout;
+
+      const result = await this.makeAgentsRequest(
+        "POST",
+        `sandboxes/${sandboxId}/commands/run`,
+        data,
+        requestOptions,
+      );
+      return result as CommandRunResponse;
+    });
   }
 
   // Code Execution Methods
 
-  async runCode(
+  runCode(
     sandboxId: string,
     code: string,
     options?: {
@@ -379,90 +469,108 @@ export class Sandboxes {
       on_result?: boolean;
       on_error?: boolean;
     },
-  ): Promise<CodeRunResponse> {
-    const data: any = { code };
-    if (options?.language) data.language = options.language;
-    if (options?.context_id) data.context_id = options.context_id;
-    if (options?.environment) data.environment = options.environment;
-    if (options?.timeout) data.timeout = options.timeout;
-    if (options?.on_stdout) data.on_stdout = options.on_stdout;
-    if (options?.on_stderr) data.on_stderr = options.on_stderr;
-    if (options?.on_result) data.on_result = options.on_result;
-    if (options?.on_error) data.on_error = options.on_error;
-
-    const result = await this.makeAgentsRequest(
-      "POST",
-      `sandboxes/${sandboxId}/code/run`,
-      data,
-    );
+    requestOptions?: RequestOptions,
+  ): APIPromise<CodeRunResponse> {
+    return new APIPromise(async () => {
+      const data: any = { code };
+      if (options?.language) data.language = options.language;
+      if (options?.context_id) data.context_id = options.context_id;
+      if (options?.environment) data.environment = options.environment;
+      if (options?.timeout) data.timeout = options.timeout;
+      if (options?.on_stdout) data.on_stdout = options.on_stdout;
+      if (options?.on_stderr) data.on_stderr = options.on_stderr;
+      if (options?.on_result) data.on_result = options.on_result;
+      if (options?.on_error) data.on_error = options.on_error;
+
+      const result = await this.makeAgentsRequest(
+        "POST",
+        `sandboxes/${sandboxId}/code/run`,
+        data,
+        requestOptions,
+      );
 
-    // Ensure all required fields have defaults
-    if (!result.execution_id) result.execution_id = null;
-    if (!result.results) result.results = {};
-    if (!result.error) result.error = null;
-    if (!result.logs) result.logs = { stdout: [], stderr: [] };
+      // Ensure all required fields have defaults
+      if (!result.execution_id) result.execution_id = null;
+      if (!result.results) result.results = {};
+      if (!result.error) result.error = null;
+      if (!result.logs) result.logs = { stdout: [], stderr: [] };
 
-    return result as CodeRunResponse;
+      return result as CodeRunResponse;
+    });
   }
 
-  async createCodeContext(
+  createCodeContext(
     sandboxId: string,
     options?: {
       language?: string;
       cwd?: string;
     },
-  ): Promise<CodeContext> {
-    const data: any = {};
-    if (options?.language) data.language = options.language;
-    if (options?.cwd) data.cwd = options.cwd;
-
-    const result = await this.makeAgentsRequest(
-      "POST",
-      `sandboxes/${sandboxId}/code/contexts`,
-      data,
-    );
+    requestOptions?: RequestOptions,
+  ): APIPromise<CodeContext> {
+    return new APIPromise(async () => {
+      const data: any = {};
+      if (options?.language) data.language = options.language;
+      if (options?.cwd) data.cwd = options.cwd;
+
+      const result = await this.makeAgentsRequest(
+        "POST",
+        `sandboxes/${sandboxId}/code/contexts`,
+        data,
+        requestOptions,
+      );
 
-    // Map API response to our interface
-    return {
-      context_id: result.id || result.context_id || "",
-      language: result.language || options?.language || "python",
-      cwd: result.cwd || options?.cwd || "/home/user",
-      created_at: result.created_at,
-      expires_at: result.expires_at,
-      status: result.status,
-      last_used: result.last_used,
-    };
+      // Map API response to our interface
+      return {
+        context_id: result.id || result.context_id || "",
+        language: result.language || options?.language || "python",
+        cwd: result.cwd || options?.cwd || "/home/user",
+        created_at: result.created_at,
+        expires_at: result.expires_at,
+        status: result.status,
+        last_used: result.last_used,
+      };
+    });
   }
 
-  async getCodeContext(
+  getCodeContext(
     sandboxId: string,
     contextId: string,
-  ): Promise<CodeContext> {
-    const result = await this.makeAgentsRequest(
-      "GET",
-      `sandboxes/${sandboxId}/code/contexts/${contextId}`,
-    );
+    requestOptions?: RequestOptions,
+  ): APIPromise<CodeContext> {
+    return new APIPromise(async () => {
+      const result = await this.makeAgentsRequest(
+        "GET",
+        `sandboxes/${sandboxId}/code/contexts/${contextId}`,
+        undefined,
+        requestOptions,
+      );
 
-    // Map API response to our interface
-    return {
-      context_id: result.id || result.context_id || "",
-      language: result.language || "python",
-      cwd: result.cwd || "/home/user",
-      created_at: result.created_at,
-      expires_at: result.expires_at,
-      status: result.status,
-      last_used: result.last_used,
-    };
+      // Map API response to our interface
+      return {
+        context_id: result.id || result.context_id || "",
+        language: result.language || "python",
+        cwd: result.cwd || "/home/user",
+        created_at: result.created_at,
+        expires_at: result.expires_at,
+        status: result.status,
+        last_used: result.last_used,
+      };
+    });
   }
 
-  async deleteCodeContext(
+  deleteCodeContext(
     sandboxId: string,
     contextId: string,
-  ): Promise<CodeContextDeleteResponse> {
-    const result = await this.makeAgentsRequest(
-      "DELETE",
-      `sandboxes/${sandboxId}/code/contexts/${contextId}`,
-    );
-    return result as CodeContextDeleteResponse;
+    requestOptions?: RequestOptions,
+  ): APIPromise<CodeContextDeleteResponse> {
+    return new APIPromise(async () => {
+      const result = await this.makeAgentsRequest(
+        "DELETE",
+        `sandboxes/${sandboxId}/code/contexts/${contextId}`,
+        undefined,
+        requestOptions,
+      );
+      return result as CodeContextDeleteResponse;
+    });
   }
 }
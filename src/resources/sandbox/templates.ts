@@ -3,63 +3,81 @@
  */
 import { GravixLayer } from "../../client";
 import { Template, TemplateList } from "../../types/sandbox";
+import { RequestOptions } from "../../types/transport";
+import { APIPromise } from "../../api-promise";
+import { PagePromise, nextOffset, paginate } from "../../pagination";
 
 export class SandboxTemplates {
   private client: GravixLayer;
-  private _agentsBaseUrl?: string;
 
   constructor(client: GravixLayer) {
     this.client = client;
   }
 
-  private getAgentsBaseUrl(): string {
-    if (!this._agentsBaseUrl) {
-      // Replace /v1/inference with /v1/agents for agent endpoints
-      this._agentsBaseUrl = this.client["baseURL"].replace(
-        "/v1/inference",
-        "/v1/agents",
-      );
-    }
-    return this._agentsBaseUrl;
-  }
-
   private async makeAgentsRequest(
     method: string,
     endpoint: string,
     data?: any,
-    options?: any,
+    requestOptions?: RequestOptions,
   ): Promise<any> {
-    const originalBaseUrl = this.client["baseURL"];
-    this.client["baseURL"] = this.getAgentsBaseUrl();
+    const response = await this.client["_makeRequest"](
+      method,
+      this.client._serviceURL("agents", endpoint),
+      data,
+      false,
+      requestOptions,
+    );
+    return await response.json();
+  }
 
-    try {
-      const response = await this.client["_makeRequest"](
-        method,
-        endpoint,
-        data,
-        false,
-        options,
-      );
-      return await response.json();
-    } finally {
-      this.client["baseURL"] = originalBaseUrl;
-    }
+  /**
+   * List templates a page at a time. Iterate the result with `for await`
+   * to go through all of them.
+   */
+  list(
+    options: {
+      limit?: number;
+      offset?: number;
+    } = {},
+    requestOptions?: RequestOptions,
+  ): PagePromise<Template, TemplateList> {
+    return paginate(
+      options,
+      (pageOptions) => this._listPage(pageOptions, requestOptions),
+      (page) => page.templates,
+      (page, pageOptions) => {
+        const offset = nextOffset(
+          page.offset ?? pageOptions.offset ?? 0,
+          page.templates.length,
+          { limit: page.limit ?? pageOptions.limit },
+        );
+        return offset === undefined ? undefined : { ...pageOptions, offset };
+      },
+    );
   }
 
-  async list(options?: {
-    limit?: number;
-    offset?: number;
-  }): Promise<TemplateList> {
+  private async _listPage(
+    options: {
+      limit?: number;
+      offset?: number;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<TemplateList> {
     const params = new URLSearchParams();
-    if (options?.limit !== undefined)
+    if (options.limit !== undefined)
       params.append("limit", options.limit.toString());
-    if (options?.offset !== undefined)
+    if (options.offset !== undefined)
       params.append("offset", options.offset.toString());
 
     const endpoint = params.toString()
       ? `templates?${params.toString()}`
       : "templates";
-    const result = await this.makeAgentsRequest("GET", endpoint);
+    const result = await this.makeAgentsRequest(
+      "GET",
+      endpoint,
+      undefined,
+      requestOptions,
+    );
 
     const templates: Template[] = result.templates.map(
       (template: any) => template as Template,
@@ -13,6 +13,9 @@ import {
   SUPPORTED_REGIONS,
 } from "../../types/vectors";
 import { GravixLayerBadRequestError } from "../../types/exceptions";
+import { RequestOptions } from "../../types/transport";
+import { APIPromise } from "../../api-promise";
+import { PagePromise, nextOffset, paginate } from "../../pagination";
 
 export class VectorIndexes {
   constructor(private client: any) {}
@@ -20,95 +23,146 @@ export class VectorIndexes {
   /**
    * Create a new vector index
    */
-  async create(params: CreateIndexRequest): Promise<VectorIndex> {
-    const {
-      name,
-      dimension,
-      metric,
-      vector_type = "dense",
-      cloud_provider,
-      region,
-      index_type,
-      metadata,
-      delete_protection = false,
-    } = params;
-
-    // Validate parameters
-    if (!name || typeof name !== "string") {
-      throw new GravixLayerBadRequestError(
-        "Index name is required and must be a string",
+  create(
+    params: CreateIndexRequest,
+    requestOptions?: RequestOptions,
+  ): APIPromise<VectorIndex> {
+    return new APIPromise(async () => {
+      const {
+        name,
+        dimension,
+        metric,
+        vector_type = "dense",
+        cloud_provider,
+        region,
+        index_type,
+        metadata,
+        delete_protection = false,
+      } = params;
+
+      // Validate parameters
+      if (!name || typeof name !== "string") {
+        throw new GravixLayerBadRequestError(
+          "Index name is required and must be a string",
+        );
+      }
+
+      if (!Number.isInteger(dimension) || dimension <= 0) {
+        throw new GravixLayerBadRequestError(
+          "Dimension must be a positive integer",
+        );
+      }
+
+      if (!SUPPORTED_METRICS.includes(metric as any)) {
+        throw new GravixLayerBadRequestError(
+          `Unsupported metric. Supported: ${SUPPORTED_METRICS.join(", ")}`,
+        );
+      }
+
+      if (!SUPPORTED_VECTOR_TYPES.includes(vector_type as any)) {
+        throw new GravixLayerBadRequestError(
+          `Unsupported vector type. Supported: ${SUPPORTED_VECTOR_TYPES.join(", ")}`,
+        );
+      }
+
+      if (
+        cloud_provider &&
+        !SUPPORTED_CLOUD_PROVIDERS.includes(cloud_provider as any)
+      ) {
+        throw new GravixLayerBadRequestError(
+          `Unsupported cloud provider. Supported: ${SUPPORTED_CLOUD_PROVIDERS.join(", ")}`,
+        );
+      }
+
+      if (region && !SUPPORTED_REGIONS.includes(region as any)) {
+        throw new GravixLayerBadRequestError(
+          `Unsupported region. Supported: ${SUPPORTED_REGIONS.join(", ")}`,
+        );
+      }
+
+      if (index_type && !SUPPORTED_INDEX_TYPES.includes(index_type as any)) {
+        throw new GravixLayerBadRequestError(
+          `Unsupported index type. Supported: ${SUPPORTED_INDEX_TYPES.join(", ")}`,
+        );
+      }
+
+      const requestData = {
+        name,
+        dimension,
+        metric,
+        vector_type,
+        cloud_provider,
+        region,
+        index_type,
+        metadata,
+        delete_protection,
+      };
+
+      // Use vector database API endpoint
+      const response = await this.client._makeRequest(
+        "POST",
+        this.client._serviceURL("vectors", "indexes"),
+        requestData,
+        false,
+        requestOptions,
       );
-    }
 
-    if (!Number.isInteger(dimension) || dimension <= 0) {
-      throw new GravixLayerBadRequestError(
-        "Dimension must be a positive integer",
-      );
-    }
-
-    if (!SUPPORTED_METRICS.includes(metric as any)) {
-      throw new GravixLayerBadRequestError(
-        `Unsupported metric. Supported: ${SUPPORTED_METRICS.join(", ")}`,
-      );
-    }
-
-    if (!SUPPORTED_VECTOR_TYPES.includes(vector_type as any)) {
-      throw new GravixLayerBadRequestError(
-        `Unsupported vector type. Supported: ${SUPPORTED_VECTOR_TYPES.join(", ")}`,
-      );
-    }
-
-    if (
-      cloud_provider &&
-      !SUPPORTED_CLOUD_PROVIDERS.includes(cloud_provider as any)
-    ) {
-      throw new GravixLayerBadRequestError(
-        `Unsupported cloud provider. Supported: ${SUPPORTED_CLOUD_PROVIDERS.join(", ")}`,
-      );
-    }
-
-    if (region && !SUPPORTED_REGIONS.includes(region as any)) {
-      throw new GravixLayerBadRequestError(
-        `Unsupported region. Supported: ${SUPPORTED_REGIONS.join(", ")}`,
-      );
-    }
-
-    if (index_type && !SUPPORTED_INDEX_TYPES.includes(index_type as any)) {
-      throw new GravixLayerBadRequestError(
-        `Unsupported index type. Supported: ${SUPPORTED_INDEX_TYPES.join(", ")}`,
-      );
-    }
-
-    const requestData = {
-      name,
-      dimension,
-      metric,
-      vector_type,
-      cloud_provider,
-      region,
-      index_type,
-      metadata,
-      delete_protection,
-    };
-
-    // Use vector database API endpoint
-    const response = await this.client._makeRequest(
-      "POST",
-      "https://api.gravixlayer.com/v1/vectors/indexes",
-      requestData,
-    );
-
-    const result = await response.json();
-    return result as VectorIndex;
+      const result = await response.json();
+      return result as VectorIndex;
+    });
   }
 
   /**
-   * List all vector indexes
+   * List vector indexes a page at a time. Iterate the result with
+   * `for await` to go through all of them.
    */
-  async list(): Promise<VectorIndexList> {
+  list(
+    options: {
+      limit?: number;
+      offset?: number;
+    } = {},
+    requestOptions?: RequestOptions,
+  ): PagePromise<VectorIndex, VectorIndexList> {
+    return paginate(
+      options,
+      (pageOptions) => this._listPage(pageOptions, requestOptions),
+      (page) => page.indexes || [],
+      (page, pageOptions) => {
+        const pagination = page.pagination || {};
+        const offset = nextOffset(
+          pagination.offset ?? pageOptions.offset ?? 0,
+          (page.indexes || []).length,
+          {
+            limit: pagination.limit ?? pageOptions.limit,
+            total: pagination.total,
+            hasMore: pagination.has_more,
+          },
+        );
+        return offset === undefined ? undefined : { ...pageOptions, offset };
+      },
+    );
+  }
+
+  private async _listPage(
+    options: {
+      limit?: number;
+      offset?: number;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<VectorIndexList> {
+    const params = new URLSearchParams();
+    if (options.limit !== undefined)
+      params.append("limit", options.limit.toString());
+    if (options.offset !== undefined)
+      params.append("offset", options.offset.toString());
+
+    const path = params.toString() ? `indexes?${params}` : "indexes";
     const response = await this.client._makeRequest(
       "GET",
-      "https://api.gravixlayer.com/v1/vectors/indexes",
+      this.client._serviceURL("vectors", path),
+      undefined,
+      false,
+      requestOptions,
     );
 
     const result = await response.json();
@@ -118,54 +172,75 @@ export class VectorIndexes {
   /**
    * Get a specific vector index by ID
    */
-  async get(indexId: string): Promise<VectorIndex> {
-    if (!indexId) {
-      throw new GravixLayerBadRequestError("Index ID is required");
-    }
-
-    const response = await this.client._makeRequest(
-      "GET",
-      `https://api.gravixlayer.com/v1/vectors/indexes/${indexId}`,
-    );
+  get(
+    indexId: string,
+    requestOptions?: RequestOptions,
+  ): APIPromise<VectorIndex> {
+    return new APIPromise(async () => {
+      if (!indexId) {
+        throw new GravixLayerBadRequestError("Index ID is required");
+      }
+
+      const response = await this.client._makeRequest(
+        "GET",
+        this.client._serviceURL("vectors", `indexes/${indexId}`),
+        undefined,
+        false,
+        requestOptions,
+      );
 
-    const result = await response.json();
-    return result as VectorIndex;
+      const result = await response.json();
+      return result as VectorIndex;
+    });
   }
 
   /**
    * Update a vector index
    */
-  async update(
+  update(
     indexId: string,
     params: UpdateIndexRequest,
-  ): Promise<VectorIndex> {
-    if (!indexId) {
-      throw new GravixLayerBadRequestError("Index ID is required");
-    }
-
-    const response = await this.client._makeRequest(
-      "PUT",
-      `https://api.gravixlayer.com/v1/vectors/indexes/${indexId}`,
-      params,
-    );
+    requestOptions?: RequestOptions,
+  ): APIPromise<VectorIndex> {
+    return new APIPromise(async () => {
+      if (!indexId) {
+        throw new GravixLayerBadRequestError("Index ID is required");
+      }
+
+      const response = await this.client._makeRequest(
+        "PUT",
+        this.client._serviceURL("vectors", `indexes/${indexId}`),
+        params,
+        false,
+        requestOptions,
+      );
 
-    const result = await response.json();
-    return result as VectorIndex;
+      const result = await response.json();
+      return result as VectorIndex;
+    });
   }
 
   /**
    * Delete a vector index
    */
-  async delete(indexId: string): Promise<{ message: string }> {
-    if (!indexId) {
-      throw new GravixLayerBadRequestError("Index ID is required");
-    }
-
-    const response = await this.client._makeRequest(
-      "DELETE",
-      `https://api.gravixlayer.com/v1/vectors/indexes/${indexId}`,
-    );
+  delete(
+    indexId: string,
+    requestOptions?: RequestOptions,
+  ): APIPromise<{ message: string }> {
+    return new APIPromise(async () => {
+      if (!indexId) {
+        throw new GravixLayerBadRequestError("Index ID is required");
+      }
+
+      const response = await this.client._makeRequest(
+        "DELETE",
+        this.client._serviceURL("vectors", `indexes/${indexId}`),
+        undefined,
+        false,
+        requestOptions,
+      );
 
-    return await response.json();
+      return await response.json();
+    });
   }
 }
@@ -3,6 +3,12 @@
  */
 import { VectorIndexes } from "./indexes";
 import { Vectors } from "./vectors";
+import { migrateIndex } from "./migrate";
+import {
+  VectorMigrationOptions,
+  VectorMigrationResult,
+} from "../../types/vectors";
+import { RequestOptions } from "../../types/transport";
 
 export class VectorDatabase {
   public indexes: VectorIndexes;
@@ -17,4 +23,19 @@ export class VectorDatabase {
   index(indexId: string): Vectors {
     return new Vectors(this.client, indexId);
   }
+
+  /**
+   * Copy the index `from` into a new index created from `to`, re-embedding
+   * the text of each vector with `reembedWith` when the model changes.
+   * Vectors are read page by page, optionally rewritten by `transform`
+   * and batch-upserted. The new index is then counted against what was
+   * written, and with `deleteSource` the old index is deleted once the
+   * counts match.
+   */
+  migrate(
+    options: VectorMigrationOptions,
+    requestOptions?: RequestOptions,
+  ): Promise<VectorMigrationResult> {
+    return migrateIndex(this, this.client.logger, options, requestOptions);
+  }
 }
@@ -0,0 +1,145 @@
+/**
+ * Copying an index into a new one, optionally re-embedding its vectors
+ */
+import {
+  VectorMigrationOptions,
+  VectorImportResult,
+  VectorMigrationResult,
+  VectorRecord,
+} from "../../types/vectors";
+import { GravixLayerBadRequestError } from "../../types/exceptions";
+import { RequestOptions } from "../../types/transport";
+import { Logger } from "../../logger";
+import { importVectors, iterVectors } from "./transfer";
+import type { VectorDatabase } from "./main";
+
+const DEFAULT_MIGRATION_BATCH_SIZE = 100;
+
+/**
+ * See `VectorDatabase.migrate`.
+ */
+export async function migrateIndex(
+  database: VectorDatabase,
+  logger: Logger,
+  options: VectorMigrationOptions,
+  requestOptions?: RequestOptions,
+): Promise<VectorMigrationResult> {
+  const {
+    from,
+    to,
+    reembedWith,
+    textField = "content",
+    transform,
+    batchSize = DEFAULT_MIGRATION_BATCH_SIZE,
+    concurrency,
+    deleteSource = false,
+    onProgress,
+  } = options;
+
+  const source = await database.indexes.get(from, requestOptions);
+  if (!reembedWith && source.dimension !== to.dimension) {
+    throw new GravixLayerBadRequestError(
+      `Index ${from} has dimension ${source.dimension} but the new index has ${to.dimension}; pass reembedWith to re-embed the vectors`,
+    );
+  }
+
+  const index = await database.indexes.create(to, requestOptions);
+  let total = 0;
+  let skipped = 0;
+  let protectedVectors = 0;
+
+  async function* records(): AsyncGenerator<VectorRecord> {
+    for await (const chunk of iterVectors(
+      database.index(from),
+      batchSize,
+      requestOptions,
+    )) {
+      for (const vector of chunk.vectors) {
+        total += 1;
+        if (vector.delete_protection) protectedVectors += 1;
+
+        const record = transform
+          ? await transform(vector)
+          : {
+              id: vector.id,
+              embedding: vector.embedding,
+              metadata: vector.metadata,
+              delete_protection: vector.delete_protection,
+            };
+        if (!record) {
+          skipped += 1;
+          continue;
+        }
+        if (!reembedWith) {
+          yield record;
+          continue;
+        }
+
+        // The old embedding is from another model, so only the text is sent
+        const text = record.text ?? record.metadata?.[textField];
+        const reembedded: VectorRecord = {
+          ...record,
+          text: typeof text === "string" ? text : undefined,
+          model: reembedWith,
+        };
+        delete reembedded.embedding;
+        yield reembedded;
+      }
+    }
+  }
+
+  let imported: VectorImportResult;
+  try {
+    imported = await importVectors(
+      database.index(index.id),
+      records(),
+      { batchSize, concurrency, onProgress },
+      requestOptions,
+    );
+  } catch (error) {
+    logger.warn(
+      `Migration from index ${from} to ${index.id} stopped; the new index holds the vectors copied so far`,
+    );
+    throw error;
+  }
+
+  const found = (
+    await database.index(index.id).listIds(requestOptions)
+  ).getPaginatedItems().length;
+  const verified = found === imported.upserted;
+  if (!verified) {
+    logger.warn(
+      `Index ${index.id} holds ${found} vectors after migrating ${imported.upserted}`,
+    );
+  }
+
+  let sourceDeleted = false;
+  if (deleteSource) {
+    let keep: string | undefined;
+    if (!verified || imported.failed > 0) {
+      keep = "not every vector was migrated";
+    } else if (source.delete_protection) {
+      keep = "it has delete protection";
+    } else if (protectedVectors > 0) {
+      keep = `${protectedVectors} of its vectors have delete protection`;
+    }
+
+    if (keep) {
+      logger.warn(`Kept source index ${from} because ${keep}`);
+    } else {
+      await database.indexes.delete(from, requestOptions);
+      sourceDeleted = true;
+    }
+  }
+
+  return {
+    index,
+    total,
+    migrated: imported.upserted,
+    skipped,
+    failed: imported.failed,
+    errors: imported.errors,
+    verified,
+    sourceDeleted,
+  };
+}
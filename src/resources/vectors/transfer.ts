@@ -0,0 +1,497 @@
+/**
+ * Streaming import and export of vectors as JSONL or CSV
+ */
+import { createReadStream, createWriteStream } from "fs";
+import { readFile, rm, writeFile } from "fs/promises";
+import { once } from "events";
+import { createInterface } from "readline";
+import { extname } from "path";
+import {
+  BatchUpsertResponse,
+  Vector,
+  VectorExportOptions,
+  VectorFileFormat,
+  VectorImportOptions,
+  VectorImportResult,
+  VectorRecord,
+} from "../../types/vectors";
+import { GravixLayerBadRequestError } from "../../types/exceptions";
+import { RequestOptions } from "../../types/transport";
+import type { Vectors } from "./vectors";
+
+const DEFAULT_IMPORT_BATCH_SIZE = 100;
+const DEFAULT_MAX_BATCH_BYTES = 2 * 1024 * 1024;
+const DEFAULT_IMPORT_CONCURRENCY = 2;
+const DEFAULT_EXPORT_BATCH_SIZE = 100;
+
+export type VectorSource =
+  | string
+  | AsyncIterable<VectorRecord>
+  | Iterable<VectorRecord>;
+
+/** A row of the source, or why it could not be read. */
+interface SourceRow {
+  row: number;
+  record?: VectorRecord;
+  error?: string;
+}
+
+interface BatchRow {
+  row: number;
+  id?: string;
+  kind?: "embedding" | "text";
+  body?: Record<string, any>;
+  error?: string;
+}
+
+interface Batch {
+  /** Rows before this batch, i.e. the checkpoint once it is done. */
+  start: number;
+  end: number;
+  rows: BatchRow[];
+  bytes: number;
+}
+
+function fileFormat(path: string, format?: VectorFileFormat): VectorFileFormat {
+  return format || (extname(path).toLowerCase() === ".csv" ? "csv" : "jsonl");
+}
+
+/**
+ * Split CSV text into records, following RFC 4180 quoting. Quoted fields
+ * may contain commas, quotes and line breaks.
+ */
+async function* parseCSV(
+  chunks: AsyncIterable<string>,
+): AsyncGenerator<string[]> {
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let quoteSeen = false;
+
+  for await (const chunk of chunks) {
+    for (const char of chunk) {
+      if (inQuotes) {
+        if (char === '"') {
+          inQuotes = false;
+          quoteSeen = true;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+      if (quoteSeen && char === '"') {
+        // A doubled quote inside a quoted field
+        field += '"';
+        inQuotes = true;
+        quoteSeen = false;
+        continue;
+      }
+      quoteSeen = false;
+
+      if (char === '"' && field === "") {
+        inQuotes = true;
+      } else if (char === ",") {
+        row.push(field);
+        field = "";
+      } else if (char === "\n") {
+        row.push(field);
+        if (row.length > 1 || row[0] !== "") yield row;
+        row = [];
+        field = "";
+      } else if (char !== "\r") {
+        field += char;
+      }
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    yield row;
+  }
+}
+
+function csvRecord(header: string[], values: string[]): VectorRecord {
+  const record: VectorRecord = {};
+  const extra: Record<string, string> = {};
+  header.forEach((column, index) => {
+    const value = values[index] ?? "";
+    if (value === "") return;
+    switch (column) {
+      case "embedding":
+        record.embedding = JSON.parse(value);
+        break;
+      case "metadata":
+        record.metadata = JSON.parse(value);
+        break;
+      case "delete_protection":
+        record.delete_protection = value.toLowerCase() === "true";
+        break;
+      case "id":
+      case "text":
+      case "model":
+        record[column] = value;
+        break;
+      default:
+        // Any other column becomes a metadata field
+        extra[column] = value;
+    }
+  });
+  if (Object.keys(extra).length) {
+    record.metadata = { ...extra, ...record.metadata };
+  }
+  return record;
+}
+
+async function* readRows(
+  source: VectorSource,
+  format?: VectorFileFormat,
+): AsyncGenerator<SourceRow> {
+  let row = 0;
+  if (typeof source !== "string") {
+    for await (const record of source) {
+      yield { row: ++row, record };
+    }
+    return;
+  }
+
+  const stream = createReadStream(source, { encoding: "utf8" });
+  if (fileFormat(source, format) === "csv") {
+    let header: string[] | undefined;
+    for await (const values of parseCSV(stream)) {
+      if (!header) {
+        header = values.map((column) => column.trim());
+        continue;
+      }
+      row++;
+      try {
+        yield { row, record: csvRecord(header, values) };
+      } catch (error) {
+        yield { row, error: `Invalid CSV row: ${errorMessage(error)}` };
+      }
+    }
+    return;
+  }
+
+  for await (const line of createInterface({
+    input: stream,
+    crlfDelay: Infinity,
+  })) {
+    if (!line.trim()) continue;
+    row++;
+    let record: VectorRecord;
+    try {
+      record = JSON.parse(line);
+    } catch (error) {
+      yield { row, error: `Invalid JSON: ${errorMessage(error)}` };
+      continue;
+    }
+    yield { row, record };
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Find the row whose ID a server error names. The ID has to stand as its
+ * own token, and the longest one wins, so "vector 10" is not taken for
+ * row "1".
+ */
+function mentionedRow(rows: BatchRow[], error: string): BatchRow | undefined {
+  let match: BatchRow | undefined;
+  for (const row of rows) {
+    if (!row.id || (match && match.id!.length >= row.id.length)) continue;
+    const escaped = row.id.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const token = new RegExp(
+      `(?<![^\\s"'(\\[{=])${escaped}(?![^\\s"',:;.)\\]}])`,
+    );
+    if (token.test(error)) match = row;
+  }
+  return match;
+}
+
+/**
+ * Turn a record into the request body of the matching batch endpoint.
+ */
+function toBatchRow(
+  row: number,
+  record: VectorRecord | undefined,
+  defaultModel?: string,
+): BatchRow {
+  if (!record || typeof record !== "object") {
+    return { row, error: "Row is not an object" };
+  }
+
+  const id = record.id === undefined ? undefined : String(record.id);
+  const common: Record<string, any> = {
+    metadata: record.metadata || {},
+    delete_protection: record.delete_protection || false,
+  };
+  if (id !== undefined) common.id = id;
+
+  if (record.embedding !== undefined) {
+    if (
+      !Array.isArray(record.embedding) ||
+      !record.embedding.every((value) => Number.isFinite(value))
+    ) {
+      return { row, id, error: "embedding must be an array of numbers" };
+    }
+    return {
+      row,
+      id,
+      kind: "embedding",
+      body: { ...common, embedding: record.embedding },
+    };
+  }
+  if (typeof record.text === "string" && record.text) {
+    const model = record.model || defaultModel;
+    if (!model) {
+      return { row, id, error: "Text rows need a model; pass `model`" };
+    }
+    return {
+      row,
+      id,
+      kind: "text",
+      body: { ...common, text: record.text, model },
+    };
+  }
+  return { row, id, error: "Row needs an embedding or a text" };
+}
+
+async function readCheckpoint(path: string): Promise<number> {
+  try {
+    const { rows } = JSON.parse(await readFile(path, "utf8"));
+    return Number(rows) || 0;
+  } catch (error: any) {
+    if (error.code === "ENOENT") return 0;
+    throw error;
+  }
+}
+
+/**
+ * Stream rows from `source` into the index in batches. See
+ * `Vectors.importFrom`.
+ */
+export async function importVectors(
+  vectors: Vectors,
+  source: VectorSource,
+  options: VectorImportOptions = {},
+  requestOptions?: RequestOptions,
+): Promise<VectorImportResult> {
+  const {
+    format,
+    model,
+    batchSize = DEFAULT_IMPORT_BATCH_SIZE,
+    maxBatchBytes = DEFAULT_MAX_BATCH_BYTES,
+    concurrency = DEFAULT_IMPORT_CONCURRENCY,
+    checkpoint,
+    onProgress,
+  } = options;
+
+  for (const [name, value] of Object.entries({ batchSize, concurrency })) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new GravixLayerBadRequestError(
+        `${name} must be a positive integer`,
+      );
+    }
+  }
+
+  const skip = checkpoint ? await readCheckpoint(checkpoint) : 0;
+  const result: VectorImportResult = {
+    rows: 0,
+    upserted: 0,
+    failed: 0,
+    skipped: 0,
+    errors: [],
+  };
+
+  // Batches finish out of order; the checkpoint only moves past a row
+  // once every row before it is done
+  let committed = skip;
+  const finished = new Map<number, number>();
+  let checkpointWrite = Promise.resolve();
+  const inFlight = new Set<Promise<void>>();
+  let failure: unknown;
+
+  const complete = (
+    batch: Batch,
+    responses: [BatchRow[], BatchUpsertResponse][],
+  ) => {
+    for (const row of batch.rows) {
+      if (row.error) {
+        result.failed += 1;
+        result.errors.push({ row: row.row, id: row.id, error: row.error });
+      }
+    }
+    for (const [rows, response] of responses) {
+      const errors = response.errors || [];
+      // The API reports `ids` and `count` rather than `upserted_count`
+      result.upserted +=
+        response.upserted_count ?? response.count ?? response.ids?.length ?? 0;
+      result.failed += response.failed_count ?? errors.length;
+      for (const error of errors) {
+        const match = mentionedRow(rows, error);
+        result.errors.push({ row: match?.row, id: match?.id, error });
+      }
+    }
+
+    finished.set(batch.start, batch.end);
+    while (finished.has(committed)) {
+      const end = finished.get(committed)!;
+      finished.delete(committed);
+      committed = end;
+    }
+    if (checkpoint) {
+      const rows = committed;
+      checkpointWrite = checkpointWrite.then(() =>
+        writeFile(checkpoint, JSON.stringify({ rows })),
+      );
+    }
+    onProgress?.({
+      rows: result.rows,
+      upserted: result.upserted,
+      failed: result.failed,
+    });
+  };
+
+  const send = async (batch: Batch) => {
+    const responses: [BatchRow[], BatchUpsertResponse][] = [];
+    for (const kind of ["embedding", "text"] as const) {
+      const rows = batch.rows.filter((row) => row.kind === kind);
+      if (!rows.length) continue;
+      const bodies = rows.map((row) => row.body!);
+      responses.push([
+        rows,
+        kind === "embedding"
+          ? await vectors.batchUpsert(bodies, requestOptions)
+          : await vectors.batchUpsertText(bodies, requestOptions),
+      ]);
+    }
+    complete(batch, responses);
+  };
+
+  const flush = async (batch: Batch) => {
+    while (inFlight.size >= concurrency) {
+      await Promise.race(inFlight);
+    }
+    if (failure) return;
+    const pending: Promise<void> = send(batch)
+      .catch((error) => {
+        failure = failure ?? error;
+      })
+      .finally(() => inFlight.delete(pending));
+    inFlight.add(pending);
+  };
+
+  let batch: Batch = { start: skip, end: skip, rows: [], bytes: 0 };
+  try {
+    for await (const sourceRow of readRows(source, format)) {
+      result.rows = sourceRow.row;
+      if (sourceRow.row <= skip) {
+        result.skipped += 1;
+        continue;
+      }
+      if (failure) break;
+
+      const row = sourceRow.error
+        ? { row: sourceRow.row, error: sourceRow.error }
+        : toBatchRow(sourceRow.row, sourceRow.record, model);
+      const bytes = row.body ? JSON.stringify(row.body).length : 0;
+      if (
+        batch.rows.length >= batchSize ||
+        (batch.rows.length > 0 && batch.bytes + bytes > maxBatchBytes)
+      ) {
+        await flush(batch);
+        batch = { start: batch.end, end: batch.end, rows: [], bytes: 0 };
+      }
+      batch.rows.push(row);
+      batch.bytes += bytes;
+      batch.end = sourceRow.row;
+    }
+    if (!failure && batch.rows.length) await flush(batch);
+  } finally {
+    // Let requests already sent settle, so the checkpoint covers them
+    await Promise.all(inFlight);
+    await checkpointWrite;
+  }
+  if (failure) throw failure;
+
+  if (checkpoint) await rm(checkpoint, { force: true });
+  return result;
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Every vector of the index, fetched `batchSize` at a time. `total` is the
+ * number of IDs listed when iteration started.
+ */
+export async function* iterVectors(
+  vectors: Vectors,
+  batchSize: number,
+  requestOptions?: RequestOptions,
+): AsyncGenerator<{ vectors: Vector[]; total: number }> {
+  const ids = (await vectors.listIds(requestOptions))
+    .getPaginatedItems()
+    .map((item: any) => (typeof item === "string" ? item : item.id))
+    .filter(Boolean);
+
+  for (let i = 0; i < ids.length; i += batchSize) {
+    const chunk = ids.slice(i, i + batchSize);
+    const { vectors: found } = await vectors.list(chunk, requestOptions);
+    yield {
+      // Vectors deleted since the IDs were listed are missing
+      vectors: chunk.map((id) => found[id]).filter(Boolean),
+      total: ids.length,
+    };
+  }
+}
+
+/**
+ * Write every vector of the index to `path`. See `Vectors.exportTo`.
+ */
+export async function exportVectors(
+  vectors: Vectors,
+  path: string,
+  options: VectorExportOptions = {},
+  requestOptions?: RequestOptions,
+): Promise<{ exported: number }> {
+  const { batchSize = DEFAULT_EXPORT_BATCH_SIZE, onProgress } = options;
+  const csv = fileFormat(path, options.format) === "csv";
+
+  const stream = createWriteStream(path, { encoding: "utf8" });
+  const write = async (text: string) => {
+    if (!stream.write(text)) await once(stream, "drain");
+  };
+
+  let exported = 0;
+  try {
+    if (csv) await write("id,embedding,metadata\n");
+    for await (const chunk of iterVectors(vectors, batchSize, requestOptions)) {
+      for (const vector of chunk.vectors) {
+        const record: VectorRecord = {
+          id: vector.id,
+          embedding: vector.embedding,
+          metadata: vector.metadata || {},
+        };
+        await write(
+          csv
+            ? [
+                csvField(record.id!),
+                csvField(JSON.stringify(record.embedding)),
+                csvField(JSON.stringify(record.metadata)),
+              ].join(",") + "\n"
+            : JSON.stringify(record) + "\n",
+        );
+        exported += 1;
+      }
+      onProgress?.(exported, chunk.total);
+    }
+  } finally {
+    stream.end();
+    await once(stream, "finish");
+  }
+  return { exported };
+}
@@ -16,8 +16,62 @@ import {
   VectorSearchRequest,
   TextSearchRequest,
   UpdateVectorRequest,
+  MetadataFilter,
+  VectorImportOptions,
+  VectorImportResult,
+  VectorExportOptions,
+  HybridSearchOptions,
+  HybridSearchHit,
+  HybridSearchResponse,
+  HybridRerankOptions,
 } from "../../types/vectors";
 import { GravixLayerBadRequestError } from "../../types/exceptions";
+import { RequestOptions } from "../../types/transport";
+import { APIPromise } from "../../api-promise";
+import { PagePromise, paginate } from "../../pagination";
+import { serializeFilter } from "../../filters";
+import { schemaResponseFormat } from "../../schema";
+import {
+  BM25Index,
+  ScoredId,
+  matchesSerializedFilter,
+  reciprocalRankFusion,
+  weightedFusion,
+} from "../../search";
+import {
+  VectorSource,
+  exportVectors,
+  importVectors,
+  iterVectors,
+} from "./transfer";
+
+const RERANK_FORMAT = schemaResponseFormat<{
+  scores: { index: number; score: number }[];
+}>(
+  {
+    type: "object",
+    properties: {
+      scores: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            index: { type: "integer" },
+            score: { type: "number" },
+          },
+          required: ["index", "score"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["scores"],
+    additionalProperties: false,
+  },
+  "passage_scores",
+);
+
+/** Characters of each passage shown to the rerank model. */
+const RERANK_PASSAGE_CHARS = 2000;
 
 export class Vectors {
   private baseUrl: string;
@@ -26,391 +80,665 @@ export class Vectors {
     private client: any,
     private indexId: string,
   ) {
-    this.baseUrl = `https://api.gravixlayer.com/v1/vectors/${indexId}`;
+    this.baseUrl = client._serviceURL("vectors", indexId);
   }
 
   /**
    * Insert or update a vector
    */
-  async upsert(
+  upsert(
     embedding: number[],
     id?: string,
     metadata?: Record<string, any>,
     delete_protection: boolean = false,
-  ): Promise<Vector> {
-    const vectorData: any = {
-      embedding,
-      metadata: metadata || {},
-      delete_protection,
-    };
-
-    if (id !== undefined) {
-      vectorData.id = id;
-    }
-
-    // API expects batch format even for single operations
-    const data = {
-      vectors: [vectorData],
-    };
-
-    const response = await this.client._makeRequest(
-      "POST",
-      `${this.baseUrl}/upsert`,
-      data,
-    );
+    requestOptions?: RequestOptions,
+  ): APIPromise<Vector> {
+    return new APIPromise(async () => {
+      const vectorData: any = {
+        embedding,
+        metadata: metadata || {},
+        delete_protection,
+      };
+
+      if (id !== undefined) {
+        vectorData.id = id;
+      }
 
-    const result = await response.json();
-
-    // Handle the actual API response format
-    if (result.ids && result.ids.length > 0 && result.count > 0) {
-      // The API returns ids and count, not upserted_count
-      const vectorId = result.ids[0];
-
-      // Wait a moment for the vector to be indexed
-      await new Promise((resolve) => setTimeout(resolve, 100));
-
-      try {
-        return await this.get(vectorId);
-      } catch (error) {
-        // If we can't retrieve the vector immediately, return a minimal Vector
-        return {
-          id: vectorId,
-          embedding,
-          metadata: metadata || {},
-          delete_protection,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        } as Vector;
+      // API expects batch format even for single operations
+      const data = {
+        vectors: [vectorData],
+      };
+
+      const response = await this.client._makeRequest(
+        "POST",
+        `${this.baseUrl}/upsert`,
+        data,
+        false,
+        requestOptions,
+      );
+
+      const result = await response.json();
+
+      // Handle the actual API response format
+      if (result.ids && result.ids.length > 0 && result.count > 0) {
+        // The API returns ids and count, not upserted_count
+        const vectorId = result.ids[0];
+
+        // Wait a moment for the vector to be indexed
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        try {
+          return await this.get(vectorId, requestOptions);
+        } catch (error) {
+          // If we can't retrieve the vector immediately, return a minimal Vector
+          return {
+            id: vectorId,
+            embedding,
+            metadata: metadata || {},
+            delete_protection,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          } as Vector;
+        }
+      } else if (result.error) {
+        throw new Error(`Vector upsert failed: ${result.error}`);
+      } else {
+        throw new Error("Unexpected response format from upsert API");
       }
-    } else if (result.error) {
-      throw new Error(`Vector upsert failed: ${result.error}`);
-    } else {
-      throw new Error("Unexpected response format from upsert API");
-    }
+    });
   }
 
   /**
    * Convert text to vector and store it
    */
-  async upsertText(
+  upsertText(
     text: string,
     model: string,
     id?: string,
     metadata?: Record<string, any>,
     delete_protection: boolean = false,
-  ): Promise<TextVector> {
-    const vectorData: any = {
-      text,
-      model,
-      metadata: metadata || {},
-      delete_protection,
-    };
-
-    if (id !== undefined) {
-      vectorData.id = id;
-    }
-
-    // API expects batch format even for single operations
-    const data = {
-      vectors: [vectorData],
-    };
-
-    const response = await this.client._makeRequest(
-      "POST",
-      `${this.baseUrl}/text/upsert`,
-      data,
-    );
+    requestOptions?: RequestOptions,
+  ): APIPromise<TextVector> {
+    return new APIPromise(async () => {
+      const vectorData: any = {
+        text,
+        model,
+        metadata: metadata || {},
+        delete_protection,
+      };
+
+      if (id !== undefined) {
+        vectorData.id = id;
+      }
 
-    const result = await response.json();
-
-    // Handle the actual API response format
-    if (result.ids && result.ids.length > 0 && result.count > 0) {
-      // The API returns ids and count, not upserted_count
-      const vectorId = result.ids[0];
-
-      // Wait a moment for the vector to be indexed
-      await new Promise((resolve) => setTimeout(resolve, 100));
-
-      try {
-        const vector = await this.get(vectorId);
-        return {
-          id: vector.id,
-          text,
-          model,
-          embedding: vector.embedding,
-          metadata: vector.metadata,
-          delete_protection: vector.delete_protection,
-          created_at: vector.created_at,
-          updated_at: vector.updated_at,
-          usage: result.usage || { prompt_tokens: 0, total_tokens: 0 },
-        } as TextVector;
-      } catch (error) {
-        // If we can't retrieve the vector immediately, return a minimal TextVector
-        return {
-          id: vectorId,
-          text,
-          model,
-          embedding: [], // Will be filled when vector is retrieved later
-          metadata: metadata || {},
-          delete_protection,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          usage: result.usage || { prompt_tokens: 0, total_tokens: 0 },
-        } as TextVector;
+      // API expects batch format even for single operations
+      const data = {
+        vectors: [vectorData],
+      };
+
+      const response = await this.client._makeRequest(
+        "POST",
+        `${this.baseUrl}/text/upsert`,
+        data,
+        false,
+        requestOptions,
+      );
+
+      const result = await response.json();
+
+      // Handle the actual API response format
+      if (result.ids && result.ids.length > 0 && result.count > 0) {
+        // The API returns ids and count, not upserted_count
+        const vectorId = result.ids[0];
+
+        // Wait a moment for the vector to be indexed
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        try {
+          const vector = await this.get(vectorId, requestOptions);
+          return {
+            id: vector.id,
+            text,
+            model,
+            embedding: vector.embedding,
+            metadata: vector.metadata,
+            delete_protection: vector.delete_protection,
+            created_at: vector.created_at,
+            updated_at: vector.updated_at,
+            usage: result.usage || { prompt_tokens: 0, total_tokens: 0 },
+          } as TextVector;
+        } catch (error) {
+          // If we can't retrieve the vector immediately, return a minimal TextVector
+          return {
+            id: vectorId,
+            text,
+            model,
+            embedding: [], // Will be filled when vector is retrieved later
+            metadata: metadata || {},
+            delete_protection,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+            usage: result.usage || { prompt_tokens: 0, total_tokens: 0 },
+          } as TextVector;
+        }
+      } else if (result.error) {
+        throw new Error(`Text vector upsert failed: ${result.error}`);
+      } else {
+        throw new Error("Unexpected response format from upsert API");
       }
-    } else if (result.error) {
-      throw new Error(`Text vector upsert failed: ${result.error}`);
-    } else {
-      throw new Error("Unexpected response format from upsert API");
-    }
+    });
   }
 
   /**
    * Insert or update multiple vectors in a single operation
    */
-  async batchUpsert(
+  batchUpsert(
     vectors: Record<string, any>[],
-  ): Promise<BatchUpsertResponse> {
-    const data = { vectors };
-
-    const response = await this.client._makeRequest(
-      "POST",
-      `${this.baseUrl}/batch`,
-      data,
-    );
-
-    const result = await response.json();
-    return result as BatchUpsertResponse;
+    requestOptions?: RequestOptions,
+  ): APIPromise<BatchUpsertResponse> {
+    return new APIPromise(async () => {
+      const data = { vectors };
+
+      const response = await this.client._makeRequest(
+        "POST",
+        `${this.baseUrl}/batch`,
+        data,
+        false,
+        requestOptions,
+      );
+
+      const result = await response.json();
+      return result as BatchUpsertResponse;
+    });
   }
 
   /**
    * Convert multiple texts to vectors and store them
    */
-  async batchUpsertText(
+  batchUpsertText(
     vectors: Record<string, any>[],
-  ): Promise<BatchUpsertResponse> {
-    const data = { vectors };
+    requestOptions?: RequestOptions,
+  ): APIPromise<BatchUpsertResponse> {
+    return new APIPromise(async () => {
+      const data = { vectors };
+
+      const response = await this.client._makeRequest(
+        "POST",
+        `${this.baseUrl}/text/batch`,
+        data,
+        false,
+        requestOptions,
+      );
+
+      const result = await response.json();
+      return result as BatchUpsertResponse;
+    });
+  }
 
-    const response = await this.client._makeRequest(
-      "POST",
-      `${this.baseUrl}/text/batch`,
-      data,
-    );
+  /**
+   * Stream vectors into the index from a JSONL or CSV file, or from any
+   * iterable of records, in batches sent `concurrency` at a time. Rows the
+   * server rejects are reported in `errors`; a failed request stops the
+   * import, which can then be resumed from its `checkpoint`.
+   */
+  importFrom(
+    source: VectorSource,
+    options?: VectorImportOptions,
+    requestOptions?: RequestOptions,
+  ): Promise<VectorImportResult> {
+    return importVectors(this, source, options, requestOptions);
+  }
 
-    const result = await response.json();
-    return result as BatchUpsertResponse;
+  /**
+   * Write every vector in the index to a JSONL or CSV file.
+   */
+  exportTo(
+    path: string,
+    options?: VectorExportOptions,
+    requestOptions?: RequestOptions,
+  ): Promise<{ exported: number }> {
+    return exportVectors(this, path, options, requestOptions);
   }
 
   /**
    * Retrieve a specific vector by ID
    */
-  async get(vectorId: string): Promise<Vector> {
-    const response = await this.client._makeRequest(
-      "GET",
-      `${this.baseUrl}/${vectorId}`,
-    );
-
-    const result = await response.json();
-    return result as Vector;
+  get(vectorId: string, requestOptions?: RequestOptions): APIPromise<Vector> {
+    return new APIPromise(async () => {
+      const response = await this.client._makeRequest(
+        "GET",
+        `${this.baseUrl}/${vectorId}`,
+        undefined,
+        false,
+        requestOptions,
+      );
+
+      const result = await response.json();
+      return result as Vector;
+    });
   }
 
   /**
    * Update vector metadata and delete protection settings
    */
-  async update(
+  update(
     vectorId: string,
     metadata?: Record<string, any>,
     delete_protection?: boolean,
-  ): Promise<Vector> {
-    const data: any = {};
-    if (metadata !== undefined) {
-      data.metadata = metadata;
-    }
-    if (delete_protection !== undefined) {
-      data.delete_protection = delete_protection;
-    }
+    requestOptions?: RequestOptions,
+  ): APIPromise<Vector> {
+    return new APIPromise(async () => {
+      const data: any = {};
+      if (metadata !== undefined) {
+        data.metadata = metadata;
+      }
+      if (delete_protection !== undefined) {
+        data.delete_protection = delete_protection;
+      }
 
-    if (Object.keys(data).length === 0) {
-      throw new Error("At least one field must be provided for update");
-    }
+      if (Object.keys(data).length === 0) {
+        throw new Error("At least one field must be provided for update");
+      }
 
-    const response = await this.client._makeRequest(
-      "PUT",
-      `${this.baseUrl}/${vectorId}`,
-      data,
-    );
+      const response = await this.client._makeRequest(
+        "PUT",
+        `${this.baseUrl}/${vectorId}`,
+        data,
+        false,
+        requestOptions,
+      );
 
-    const result = await response.json();
+      const result = await response.json();
 
-    // If the update response doesn't include all fields, fetch the complete vector
-    if (!result.embedding) {
-      return this.get(vectorId);
-    }
+      // If the update response doesn't include all fields, fetch the complete vector
+      if (!result.embedding) {
+        return this.get(vectorId, requestOptions);
+      }
 
-    return result as Vector;
+      return result as Vector;
+    });
   }
 
   /**
    * Delete a specific vector using batch delete endpoint
    */
-  async delete(vectorId: string): Promise<void> {
-    await this.client._makeRequest("POST", `${this.baseUrl}/delete`, {
-      vector_ids: [vectorId],
+  delete(vectorId: string, requestOptions?: RequestOptions): APIPromise<void> {
+    return new APIPromise(async () => {
+      await this.client._makeRequest(
+        "POST",
+        `${this.baseUrl}/delete`,
+        { vector_ids: [vectorId] },
+        false,
+        requestOptions,
+      );
     });
   }
 
   /**
    * Delete multiple vectors in a single operation
    */
-  async batchDelete(vectorIds: string[]): Promise<Record<string, any>> {
-    if (!vectorIds || vectorIds.length === 0) {
-      throw new Error("At least one vector ID must be provided");
-    }
+  batchDelete(
+    vectorIds: string[],
+    requestOptions?: RequestOptions,
+  ): APIPromise<Record<string, any>> {
+    return new APIPromise(async () => {
+      if (!vectorIds || vectorIds.length === 0) {
+        throw new Error("At least one vector ID must be provided");
+      }
 
-    const data = { vector_ids: vectorIds };
+      const data = { vector_ids: vectorIds };
 
-    const response = await this.client._makeRequest(
-      "POST",
-      `${this.baseUrl}/delete`,
-      data,
-    );
+      const response = await this.client._makeRequest(
+        "POST",
+        `${this.baseUrl}/delete`,
+        data,
+        false,
+        requestOptions,
+      );
 
-    return response.json();
+      return response.json();
+    });
   }
 
   /**
-   * Retrieve a list of vector IDs in the index
+   * Retrieve a list of vector IDs in the index. The API returns them all
+   * at once, so the result is a single page.
    */
-  async listIds(): Promise<VectorListResponse> {
-    const response = await this.client._makeRequest(
-      "GET",
-      `${this.baseUrl}/list`,
+  listIds(
+    requestOptions?: RequestOptions,
+  ): PagePromise<Record<string, string>, VectorListResponse> {
+    return paginate(
+      undefined,
+      async () => {
+        const response = await this.client._makeRequest(
+          "GET",
+          `${this.baseUrl}/list`,
+          undefined,
+          false,
+          requestOptions,
+        );
+
+        const result = await response.json();
+        return result as VectorListResponse;
+      },
+      (page) => page.vectors || [],
     );
-
-    const result = await response.json();
-    return result as VectorListResponse;
   }
 
   /**
    * Retrieve vectors in the index with optional filtering
    */
-  async list(vectorIds?: string[]): Promise<VectorDictResponse> {
-    const params: any = {};
-    if (vectorIds) {
-      params.vector_ids = vectorIds.join(",");
-    }
-
-    const response = await this.client._makeRequest(
-      "GET",
-      `${this.baseUrl}/fetch`,
-      Object.keys(params).length > 0 ? params : undefined,
-    );
-
-    const result = await response.json();
-
-    // Convert vector data to Vector objects
-    // API now returns vectors as an array, not a dictionary
-    const vectors: Record<string, Vector> = {};
-    if (Array.isArray(result.vectors)) {
-      // New API format: array of vectors
-      for (const vectorData of result.vectors) {
-        // Ensure all required fields are present with defaults
-        vectorData.delete_protection = vectorData.delete_protection || false;
-        vectorData.created_at = vectorData.created_at || "";
-        vectorData.updated_at = vectorData.updated_at || "";
-        vectors[vectorData.id] = vectorData as Vector;
+  list(
+    vectorIds?: string[],
+    requestOptions?: RequestOptions,
+  ): APIPromise<VectorDictResponse> {
+    return new APIPromise(async () => {
+      // GET requests cannot carry a body, so the IDs go in the query string
+      const params = new URLSearchParams();
+      if (vectorIds) {
+        params.append("vector_ids", vectorIds.join(","));
       }
-    } else {
-      // Old API format: dictionary of vectors (fallback)
-      for (const [vectorId, vectorData] of Object.entries(result.vectors)) {
-        // Ensure all required fields are present with defaults
-        (vectorData as any).delete_protection =
-          (vectorData as any).delete_protection || false;
-        (vectorData as any).created_at = (vectorData as any).created_at || "";
-        (vectorData as any).updated_at = (vectorData as any).updated_at || "";
-        vectors[vectorId] = vectorData as Vector;
+
+      const query = params.toString();
+      const response = await this.client._makeRequest(
+        "GET",
+        query ? `${this.baseUrl}/fetch?${query}` : `${this.baseUrl}/fetch`,
+        undefined,
+        false,
+        requestOptions,
+      );
+
+      const result = await response.json();
+
+      // Convert vector data to Vector objects
+      // API now returns vectors as an array, not a dictionary
+      const vectors: Record<string, Vector> = {};
+      if (Array.isArray(result.vectors)) {
+        // New API format: array of vectors
+        for (const vectorData of result.vectors) {
+          // Ensure all required fields are present with defaults
+          vectorData.delete_protection = vectorData.delete_protection || false;
+          vectorData.created_at = vectorData.created_at || "";
+          vectorData.updated_at = vectorData.updated_at || "";
+          vectors[vectorData.id] = vectorData as Vector;
+        }
+      } else {
+        // Old API format: dictionary of vectors (fallback)
+        for (const [vectorId, vectorData] of Object.entries(result.vectors)) {
+          // Ensure all required fields are present with defaults
+          (vectorData as any).delete_protection =
+            (vectorData as any).delete_protection || false;
+          (vectorData as any).created_at = (vectorData as any).created_at || "";
+          (vectorData as any).updated_at = (vectorData as any).updated_at || "";
+          vectors[vectorId] = vectorData as Vector;
+        }
       }
-    }
 
-    return { vectors } as VectorDictResponse;
+      return { vectors } as VectorDictResponse;
+    });
   }
 
   /**
    * Perform similarity search using a vector query
    */
-  async search(
+  search(
     vector: number[],
     top_k: number,
-    filter?: Record<string, any>,
+    filter?: MetadataFilter,
     include_metadata: boolean = true,
     include_values: boolean = true,
-  ): Promise<VectorSearchResponse> {
-    if (!(top_k >= 1 && top_k <= 1000)) {
-      throw new Error("top_k must be between 1 and 1000");
-    }
+    requestOptions?: RequestOptions,
+  ): APIPromise<VectorSearchResponse> {
+    return new APIPromise(async () => {
+      if (!(top_k >= 1 && top_k <= 1000)) {
+        throw new Error("top_k must be between 1 and 1000");
+      }
 
-    const data: any = {
-      vector,
-      top_k,
-      include_metadata,
-      include_values,
-    };
+      const data: any = {
+        vector,
+        top_k,
+        include_metadata,
+        include_values,
+      };
 
-    if (filter !== undefined) {
-      data.filter = filter;
-    }
-
-    const response = await this.client._makeRequest(
-      "POST",
-      `${this.baseUrl}/search`,
-      data,
-    );
+      if (filter !== undefined) {
+        data.filter = serializeFilter(filter);
+      }
 
-    const result = await response.json();
-    return {
-      hits: result.hits,
-      query_time_ms: result.query_time_ms,
-    } as VectorSearchResponse;
+      const response = await this.client._makeRequest(
+        "POST",
+        `${this.baseUrl}/search`,
+        data,
+        false,
+        requestOptions,
+      );
+
+      const result = await response.json();
+      return {
+        hits: result.hits,
+        query_time_ms: result.query_time_ms,
+      } as VectorSearchResponse;
+    });
   }
 
   /**
    * Perform similarity search using text that gets converted to a vector
    */
-  async searchText(
+  searchText(
     query: string,
     model: string,
     top_k: number,
-    filter?: Record<string, any>,
+    filter?: MetadataFilter,
     include_metadata: boolean = true,
     include_values: boolean = true,
-  ): Promise<TextSearchResponse> {
-    if (!(top_k >= 1 && top_k <= 1000)) {
-      throw new Error("top_k must be between 1 and 1000");
-    }
+    requestOptions?: RequestOptions,
+  ): APIPromise<TextSearchResponse> {
+    return new APIPromise(async () => {
+      if (!(top_k >= 1 && top_k <= 1000)) {
+        throw new Error("top_k must be between 1 and 1000");
+      }
+
+      const data: any = {
+        query,
+        model,
+        top_k,
+        include_metadata,
+        include_values,
+      };
+
+      if (filter !== undefined) {
+        data.filter = serializeFilter(filter);
+      }
 
-    const data: any = {
-      query,
-      model,
-      top_k,
-      include_metadata,
-      include_values,
+      const response = await this.client._makeRequest(
+        "POST",
+        `${this.baseUrl}/search/text`,
+        data,
+        false,
+        requestOptions,
+      );
+
+      const result = await response.json();
+      this.client.usage.record("vectors", model, result.usage, {
+        tags: requestOptions?.tags,
+      });
+      return {
+        hits: result.hits,
+        query_time_ms: result.query_time_ms,
+        usage: result.usage,
+      } as TextSearchResponse;
+    });
+  }
+
+  /**
+   * Search by meaning and by keyword at once. Dense hits from `searchText`
+   * are fused with BM25 scores over the `textField` metadata of every
+   * vector in the index, so exact terms such as SKU codes are found even
+   * when the embedding misses them. BM25 runs client-side and fetches the
+   * whole index on each call, which suits indexes of up to some tens of
+   * thousands of vectors.
+   *
+   * With `rerank`, a chat model then rescores the best fused hits.
+   */
+  async hybridSearch(
+    query: string,
+    model: string,
+    options: HybridSearchOptions = {},
+    requestOptions?: RequestOptions,
+  ): Promise<HybridSearchResponse> {
+    const {
+      topK = 10,
+      filter,
+      textField = "content",
+      fusion = "rrf",
+      denseWeight = 0.5,
+      rrfK = 60,
+      candidates = 50,
+      rerank,
+    } = options;
+    if (!(topK >= 1 && topK <= 1000)) {
+      throw new GravixLayerBadRequestError("topK must be between 1 and 1000");
+    }
+    if (!(denseWeight >= 0 && denseWeight <= 1)) {
+      throw new GravixLayerBadRequestError(
+        "denseWeight must be between 0 and 1",
+      );
+    }
+    const depth = Math.min(Math.max(candidates, topK), 1000);
+    const serializedFilter = filter && serializeFilter(filter);
+
+    const keywordSearch = async () => {
+      const documents: Vector[] = [];
+      const texts: { id: string; text: string }[] = [];
+      for await (const chunk of iterVectors(this, 100, requestOptions)) {
+        for (const vector of chunk.vectors) {
+          const text = vector.metadata?.[textField];
+          if (typeof text !== "string") continue;
+          if (
+            serializedFilter &&
+            !matchesSerializedFilter(vector.metadata, serializedFilter)
+          ) {
+            continue;
+          }
+          documents.push(vector);
+          texts.push({ id: vector.id, text });
+        }
+      }
+      const results = new BM25Index(texts).search(query, depth);
+      return { documents, results };
     };
 
-    if (filter !== undefined) {
-      data.filter = filter;
+    // Weighted fusion needs to know which way the dense scores point
+    const metric = async () =>
+      fusion === "weighted"
+        ? (await this.client.vectors.indexes.get(this.indexId, requestOptions))
+            .metric
+        : undefined;
+
+    const [dense, keyword, denseMetric] = await Promise.all([
+      this.searchText(query, model, depth, filter, true, false, requestOptions),
+      keywordSearch(),
+      metric(),
+    ]);
+
+    const denseHits = new Map(dense.hits.map((hit) => [hit.id, hit]));
+    const keywordScores = new Map(
+      keyword.results.map((result) => [result.id, result.score]),
+    );
+    const metadata = new Map(
+      keyword.documents.map((vector) => [vector.id, vector.metadata]),
+    );
+
+    const fused: ScoredId[] =
+      fusion === "weighted"
+        ? weightedFusion([
+            {
+              // Euclidean scores are distances, so lower is closer
+              results:
+                denseMetric === "euclidean"
+                  ? dense.hits.map(({ id, score }) => ({ id, score: -score }))
+                  : dense.hits,
+              weight: denseWeight,
+            },
+            { results: keyword.results, weight: 1 - denseWeight },
+          ])
+        : reciprocalRankFusion(
+            [
+              dense.hits.map((hit) => hit.id),
+              keyword.results.map((result) => result.id),
+            ],
+            rrfK,
+          );
+
+    let hits: HybridSearchHit[] = fused.map(({ id, score }) => ({
+      id,
+      score,
+      metadata: denseHits.get(id)?.metadata ?? metadata.get(id),
+      dense_score: denseHits.get(id)?.score,
+      keyword_score: keywordScores.get(id),
+    }));
+    if (rerank) {
+      hits = await this._rerank(query, hits, textField, rerank, requestOptions);
     }
+    return { hits: hits.slice(0, topK), usage: dense.usage };
+  }
 
-    const response = await this.client._makeRequest(
-      "POST",
-      `${this.baseUrl}/search/text`,
-      data,
+  /**
+   * Have a chat model score the first `topN` hits from 0 to 10 and move
+   * them into that order. Hits the model leaves out keep their place
+   * behind the scored ones.
+   */
+  private async _rerank(
+    query: string,
+    hits: HybridSearchHit[],
+    textField: string,
+    options: HybridRerankOptions,
+    requestOptions?: RequestOptions,
+  ): Promise<HybridSearchHit[]> {
+    const { model, topN = 20, instructions } = options;
+    const head = hits.slice(0, topN);
+    if (!head.length) return hits;
+
+    const passages = head
+      .map((hit, index) => {
+        const text = String(hit.metadata?.[textField] ?? "");
+        return `[${index}] ${text.slice(0, RERANK_PASSAGE_CHARS)}`;
+      })
+      .join("\n\n");
+    let system =
+      "Rate how relevant each passage is to the search query, from 0 " +
+      "(unrelated) to 10 (answers it exactly). Score every passage by its " +
+      "index.";
+    if (instructions) system += `\n\n${instructions}`;
+
+    const completion = await this.client.chat.completions.parse(
+      {
+        model,
+        temperature: 0,
+        messages: [
+          { role: "system", content: system },
+          {
+            role: "user",
+            content: `Query: ${query}\n\nPassages:\n${passages}`,
+          },
+        ],
+        response_format: RERANK_FORMAT,
+      },
+      requestOptions,
     );
 
-    const result = await response.json();
-    return {
-      hits: result.hits,
-      query_time_ms: result.query_time_ms,
-      usage: result.usage,
-    } as TextSearchResponse;
+    for (const { index, score } of completion.choices[0]?.message.parsed
+      ?.scores || []) {
+      if (head[index]) head[index].rerank_score = score;
+    }
+    const reranked = head
+      .map((hit, position) => ({ hit, position }))
+      .sort(
+        (a, b) =>
+          (b.hit.rerank_score ?? -1) - (a.hit.rerank_score ?? -1) ||
+          a.position - b.position,
+      )
+      .map(({ hit }) => hit);
+    return [...reranked, ...hits.slice(topN)];
   }
 }
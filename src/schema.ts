@@ -0,0 +1,398 @@
+/**
+ * Schema helpers for tool definitions and structured outputs
+ *
+ * Zod schemas are supported structurally (v3 and v4), so Zod stays an
+ * optional dependency of the application rather than of the SDK.
+ */
+import { ChatCompletionTool, ResponseFormatJSONSchema } from "./types/chat";
+import {
+  GravixLayerValidationError,
+  ValidationIssue,
+} from "./types/exceptions";
+import type { ChatCompletionRunner } from "./resources/chat/runner";
+
+export type JSONSchema = Record<string, any>;
+
+/**
+ * Minimal shape of a Zod schema the helpers rely on.
+ */
+export interface ZodLikeSchema<T = any> {
+  safeParse(
+    data: unknown,
+  ):
+    | { success: true; data: T }
+    | { success: false; error: { issues: any[]; message: string } };
+}
+
+/**
+ * A schema with its JSON Schema form and a validator.
+ */
+export interface Schema<T = any> {
+  jsonSchema: JSONSchema;
+  /** Return the validated value, or list what is wrong with it. */
+  validate(
+    value: unknown,
+  ): { success: true; data: T } | { success: false; issues: ValidationIssue[] };
+}
+
+export type SchemaInput<T = any> = Schema<T> | ZodLikeSchema<T> | JSONSchema;
+
+/**
+ * Tool definition that can also validate the arguments the model sends,
+ * and optionally run a handler with them in `runTools()`.
+ */
+export interface SchemaTool<Args = any> extends ChatCompletionTool {
+  parseArguments(raw: string): Args;
+  handler?: (args: Args, runner: ChatCompletionRunner) => unknown;
+}
+
+/**
+ * `response_format` that also parses the model's reply.
+ */
+export interface SchemaResponseFormat<T = any>
+  extends ResponseFormatJSONSchema {
+  parseContent(content: string): T;
+}
+
+function isZodSchema(schema: any): schema is ZodLikeSchema {
+  return (
+    typeof schema?.safeParse === "function" &&
+    (schema._def !== undefined || schema._zod !== undefined)
+  );
+}
+
+function isSchema(schema: any): schema is Schema {
+  return (
+    typeof schema?.validate === "function" &&
+    typeof schema.jsonSchema === "object"
+  );
+}
+
+/**
+ * Normalize a Zod schema, a JSON Schema or a ready `Schema`.
+ */
+export function toSchema<T = any>(schema: SchemaInput<T>): Schema<T> {
+  if (isSchema(schema)) return schema as Schema<T>;
+  if (isZodSchema(schema)) return zodSchema(schema as ZodLikeSchema<T>);
+  return jsonSchema<T>(schema as JSONSchema);
+}
+
+/**
+ * Wrap a Zod schema; validation is done by Zod itself.
+ */
+export function zodSchema<T>(schema: ZodLikeSchema<T>): Schema<T> {
+  return {
+    jsonSchema: zodToJSONSchema(schema),
+    validate(value) {
+      const result = schema.safeParse(value);
+      if (result.success) return { success: true, data: result.data };
+      return {
+        success: false,
+        issues: result.error.issues.map((issue: any) => ({
+          path: issue.path || [],
+          message: issue.message,
+        })),
+      };
+    },
+  };
+}
+
+/**
+ * Wrap a JSON Schema. Validation covers `type`, `properties`, `required`,
+ * `additionalProperties`, `items`, `enum`, `const` and `anyOf`.
+ */
+export function jsonSchema<T = any>(schema: JSONSchema): Schema<T> {
+  return {
+    jsonSchema: schema,
+    validate(value) {
+      const issues = validateJSONSchema(schema, value, []);
+      return issues.length
+        ? { success: false, issues }
+        : { success: true, data: value as T };
+    },
+  };
+}
+
+/**
+ * Define a function tool whose arguments are described, and checked, by
+ * `parameters`.
+ */
+export function schemaTool<Args = any>(options: {
+  name: string;
+  description?: string;
+  parameters: SchemaInput<Args>;
+  strict?: boolean;
+  handler?: (args: Args, runner: ChatCompletionRunner) => unknown;
+}): SchemaTool<Args> {
+  const schema = toSchema(options.parameters);
+  return {
+    type: "function",
+    function: {
+      name: options.name,
+      description: options.description,
+      parameters: schema.jsonSchema,
+      strict: options.strict,
+    },
+    parseArguments: (raw) =>
+      parseWithSchema(schema, raw, `arguments of "${options.name}"`),
+    handler: options.handler,
+  };
+}
+
+/**
+ * Build a `json_schema` response format for structured outputs.
+ */
+export function schemaResponseFormat<T = any>(
+  schema: SchemaInput<T>,
+  name: string,
+  options: { description?: string; strict?: boolean } = {},
+): SchemaResponseFormat<T> {
+  const resolved = toSchema(schema);
+  return {
+    type: "json_schema",
+    json_schema: {
+      name,
+      description: options.description,
+      schema: resolved.jsonSchema,
+      strict: options.strict ?? true,
+    },
+    parseContent: (content) =>
+      parseWithSchema(resolved, content, `response "${name}"`),
+  };
+}
+
+/**
+ * Parse JSON text and validate it, throwing `GravixLayerValidationError`.
+ */
+export function parseWithSchema<T>(
+  schema: Schema<T>,
+  raw: string,
+  subject: string = "content",
+): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new GravixLayerValidationError(
+      `Invalid JSON in ${subject}: ${message}`,
+      raw,
+      [{ path: [], message }],
+    );
+  }
+
+  const result = schema.validate(value);
+  if (!result.success) {
+    const summary = result.issues
+      .map((issue) =>
+        issue.path.length
+          ? `${issue.path.join(".")}: ${issue.message}`
+          : issue.message,
+      )
+      .join("; ");
+    throw new GravixLayerValidationError(
+      `Invalid ${subject}: ${summary}`,
+      raw,
+      result.issues,
+    );
+  }
+  return result.data;
+}
+
+function validateJSONSchema(
+  schema: JSONSchema,
+  value: unknown,
+  path: (string | number)[],
+): ValidationIssue[] {
+  if (!schema || typeof schema !== "object") return [];
+
+  if (schema.anyOf) {
+    const branches = (schema.anyOf as JSONSchema[]).map((branch) =>
+      validateJSONSchema(branch, value, path),
+    );
+    return branches.some((issues) => issues.length === 0)
+      ? []
+      : [{ path, message: "Value does not match any allowed schema" }];
+  }
+
+  if ("const" in schema && value !== schema.const) {
+    return [{ path, message: `Expected ${JSON.stringify(schema.const)}` }];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [
+      {
+        path,
+        message: `Expected one of ${schema.enum
+          .map((option: unknown) => JSON.stringify(option))
+          .join(", ")}`,
+      },
+    ];
+  }
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type)
+      ? schema.type
+      : [schema.type];
+    if (!types.some((type) => matchesType(type, value))) {
+      return [{ path, message: `Expected ${types.join(" or ")}` }];
+    }
+  }
+
+  const issues: ValidationIssue[] = [];
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) =>
+      issues.push(...validateJSONSchema(schema.items, item, [...path, index])),
+    );
+  } else if (value && typeof value === "object" && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    const properties: Record<string, JSONSchema> = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (!(key in record)) {
+        issues.push({ path: [...path, key], message: "Required" });
+      }
+    }
+    for (const [key, item] of Object.entries(record)) {
+      if (properties[key]) {
+        issues.push(
+          ...validateJSONSchema(properties[key], item, [...path, key]),
+        );
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: [...path, key], message: "Unexpected property" });
+      } else if (typeof schema.additionalProperties === "object") {
+        issues.push(
+          ...validateJSONSchema(schema.additionalProperties, item, [
+            ...path,
+            key,
+          ]),
+        );
+      }
+    }
+  }
+  return issues;
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return !!value && typeof value === "object" && !Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Convert the common Zod types to JSON Schema. Refinements and transforms
+ * are described by their input type; Zod still enforces them on parse.
+ */
+export function zodToJSONSchema(schema: any): JSONSchema {
+  const [kind, def] = zodKind(schema);
+  if (!def) return {};
+
+  const result = convertZodDef(kind, def);
+
+  const description = schema.description ?? def.description;
+  if (description) result.description = description;
+  return result;
+}
+
+function convertZodDef(kind: string, def: any): JSONSchema {
+  switch (kind) {
+    case "string":
+      return { type: "string" };
+    case "number": {
+      const isInt =
+        def.checks?.some((check: any) => check.kind === "int") ||
+        def.format === "safeint";
+      return { type: isInt ? "integer" : "number" };
+    }
+    case "bigint":
+      return { type: "integer" };
+    case "boolean":
+      return { type: "boolean" };
+    case "null":
+      return { type: "null" };
+    case "date":
+      return { type: "string", format: "date-time" };
+    case "literal": {
+      const values = def.values ?? [def.value];
+      return values.length === 1 ? { const: values[0] } : { enum: values };
+    }
+    case "enum":
+      return {
+        type: "string",
+        enum: Array.isArray(def.values)
+          ? def.values
+          : Object.values(def.entries),
+      };
+    case "nativeenum":
+      return { enum: Object.values(def.values) };
+    case "array":
+      return { type: "array", items: zodToJSONSchema(def.element ?? def.type) };
+    case "object": {
+      const shape = typeof def.shape === "function" ? def.shape() : def.shape;
+      const properties: Record<string, JSONSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries<any>(shape)) {
+        properties[key] = zodToJSONSchema(value);
+        if (!isOptionalZod(value)) required.push(key);
+      }
+      return {
+        type: "object",
+        properties,
+        required,
+        additionalProperties: false,
+      };
+    }
+    case "record":
+      return {
+        type: "object",
+        additionalProperties: zodToJSONSchema(def.valueType),
+      };
+    case "union":
+    case "discriminatedunion":
+      return { anyOf: def.options.map(zodToJSONSchema) };
+    case "optional":
+    case "readonly":
+      return zodToJSONSchema(def.innerType);
+    case "nullable":
+      return { anyOf: [zodToJSONSchema(def.innerType), { type: "null" }] };
+    case "default":
+      return {
+        ...zodToJSONSchema(def.innerType),
+        default:
+          typeof def.defaultValue === "function"
+            ? def.defaultValue()
+            : def.defaultValue,
+      };
+    case "effects":
+      return zodToJSONSchema(def.schema);
+    case "pipe":
+    case "pipeline":
+      return zodToJSONSchema(def.in);
+    default:
+      return {};
+  }
+}
+
+function isOptionalZod(schema: any): boolean {
+  const [kind, def] = zodKind(schema);
+  return kind === "optional" || (kind === "default" && !!def.innerType);
+}
+
+function zodKind(schema: any): [string, any] {
+  // Zod v4 keeps its definition under `_zod.def` with a string `type`; v3
+  // uses `_def.typeName`, and its array definitions reuse `type`
+  const def = schema?._zod?.def ?? schema?._def;
+  const kind =
+    typeof def?.type === "string"
+      ? def.type
+      : String(def?.typeName).replace(/^Zod/, "");
+  return [kind.toLowerCase(), def];
+}
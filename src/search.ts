@@ -0,0 +1,203 @@
+/**
+ * Keyword scoring and rank fusion for hybrid search
+ */
+
+export interface BM25Document {
+  id: string;
+  text: string;
+}
+
+export interface BM25Options {
+  /** Term frequency saturation. Defaults to 1.2. */
+  k1?: number;
+  /** Length normalization, from 0 (none) to 1 (full). Defaults to 0.75. */
+  b?: number;
+}
+
+export interface ScoredId {
+  id: string;
+  score: number;
+}
+
+/**
+ * Lowercased words and numbers. Codes joined by `-`, `_` or `.`, such as
+ * SKUs and version numbers, stay one token.
+ */
+export function tokenize(text: string): string[] {
+  return (
+    text.toLowerCase().match(/[\p{L}\p{N}]+(?:[-_.][\p{L}\p{N}]+)*/gu) || []
+  );
+}
+
+/**
+ * Okapi BM25 over an in-memory set of documents.
+ */
+export class BM25Index {
+  private k1: number;
+  private b: number;
+  private terms: Map<string, number>[] = [];
+  private lengths: number[] = [];
+  private documentFrequency = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(
+    private documents: BM25Document[],
+    options: BM25Options = {},
+  ) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+
+    for (const document of documents) {
+      const tokens = tokenize(document.text);
+      const counts = new Map<string, number>();
+      for (const token of tokens) {
+        counts.set(token, (counts.get(token) || 0) + 1);
+      }
+      for (const token of counts.keys()) {
+        this.documentFrequency.set(
+          token,
+          (this.documentFrequency.get(token) || 0) + 1,
+        );
+      }
+      this.terms.push(counts);
+      this.lengths.push(tokens.length);
+    }
+    const totalLength = this.lengths.reduce((sum, length) => sum + length, 0);
+    this.averageLength = documents.length ? totalLength / documents.length : 0;
+  }
+
+  /**
+   * Documents matching at least one query term, best first.
+   */
+  search(query: string, limit?: number): ScoredId[] {
+    const queryTerms = new Set(tokenize(query));
+    const count = this.documents.length;
+    const results: ScoredId[] = [];
+
+    this.terms.forEach((counts, index) => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = counts.get(term);
+        if (!frequency) continue;
+        const documents = this.documentFrequency.get(term)!;
+        const idf = Math.log(1 + (count - documents + 0.5) / (documents + 0.5));
+        const lengthRatio = this.averageLength
+          ? this.lengths[index] / this.averageLength
+          : 0;
+        score +=
+          (idf * frequency * (this.k1 + 1)) /
+          (frequency + this.k1 * (1 - this.b + this.b * lengthRatio));
+      }
+      if (score > 0) results.push({ id: this.documents[index].id, score });
+    });
+
+    results.sort((a, b) => b.score - a.score);
+    return limit === undefined ? results : results.slice(0, limit);
+  }
+}
+
+/**
+ * Reciprocal rank fusion: each list adds `1 / (k + rank)` to the score of
+ * the IDs it contains, with ranks starting at 1.
+ */
+export function reciprocalRankFusion(
+  rankings: string[][],
+  k: number = 60,
+): ScoredId[] {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) || 0) + 1 / (k + index + 1));
+    });
+  }
+  return sortScores(scores);
+}
+
+/**
+ * Weighted sum of scores from lists on different scales. Each list is
+ * min-max normalized to [0, 1] first; an ID missing from a list scores 0
+ * in it.
+ */
+export function weightedFusion(
+  lists: { results: ScoredId[]; weight: number }[],
+): ScoredId[] {
+  const scores = new Map<string, number>();
+  for (const { results, weight } of lists) {
+    const values = results.map((result) => result.score);
+    const min = Math.min(...values);
+    const range = Math.max(...values) - min;
+    for (const { id, score } of results) {
+      const normalized = range === 0 ? 1 : (score - min) / range;
+      scores.set(id, (scores.get(id) || 0) + weight * normalized);
+    }
+  }
+  return sortScores(scores);
+}
+
+function sortScores(scores: Map<string, number>): ScoredId[] {
+  return Array.from(scores, ([id, score]) => ({ id, score })).sort(
+    (a, b) => b.score - a.score,
+  );
+}
+
+function compare(a: unknown, b: unknown): number | undefined {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "string" && typeof b === "string") {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  return undefined;
+}
+
+function matchesCondition(value: unknown, condition: unknown): boolean {
+  if (!condition || typeof condition !== "object") return value === condition;
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    const order = compare(value, operand);
+    switch (operator) {
+      case "$eq":
+        return value === operand;
+      case "$ne":
+        return value !== operand;
+      case "$in":
+        return (operand as unknown[]).includes(value);
+      case "$nin":
+        return !(operand as unknown[]).includes(value);
+      case "$gt":
+        return order !== undefined && order > 0;
+      case "$gte":
+        return order !== undefined && order >= 0;
+      case "$lt":
+        return order !== undefined && order < 0;
+      case "$lte":
+        return order !== undefined && order <= 0;
+      case "$exists":
+        return (value !== undefined) === operand;
+      default:
+        return false;
+    }
+  });
+}
+
+/**
+ * Whether `metadata` satisfies a filter already passed through
+ * `serializeFilter`, so that keyword hits are narrowed the way the server
+ * narrows dense ones. Dates compare as ISO strings.
+ */
+export function matchesSerializedFilter(
+  metadata: Record<string, any> | undefined,
+  filter: Record<string, any>,
+): boolean {
+  return Object.entries(filter).every(([key, value]) => {
+    if (key === "$and") {
+      return value.every((item: Record<string, any>) =>
+        matchesSerializedFilter(metadata, item),
+      );
+    }
+    if (key === "$or") {
+      return value.some((item: Record<string, any>) =>
+        matchesSerializedFilter(metadata, item),
+      );
+    }
+    return matchesCondition(metadata?.[key], value);
+  });
+}
@@ -0,0 +1,224 @@
+/**
+ * Server-sent events decoding for GravixLayer SDK
+ */
+import { FetchResponse } from "./types/transport";
+import { GravixLayerError } from "./types/exceptions";
+
+export interface ServerSentEvent {
+  /** Value of the `event:` field, or null for unnamed (message) events. */
+  event: string | null;
+  /** `data:` lines joined with newlines. */
+  data: string;
+  /** Last event ID seen on the stream, per the `id:` field. */
+  id: string | null;
+  /** Reconnection time in milliseconds, when the event carried `retry:`. */
+  retry?: number;
+}
+
+/**
+ * Incremental decoder following the WHATWG event stream format: LF, CR and
+ * CRLF line endings, multi-line `data:`, comments, and `event`, `id` and
+ * `retry` fields.
+ */
+export class SSEDecoder {
+  private buffer = "";
+  private trailingCR = false;
+  private event: string | null = null;
+  private data: string[] = [];
+  private lastEventId: string | null = null;
+  private retry?: number;
+
+  /**
+   * Feed decoded text and return the events it completed.
+   */
+  decode(text: string): ServerSentEvent[] {
+    // A CR at the end of the previous chunk may be half of a CRLF
+    if (this.trailingCR && text.startsWith("\n")) {
+      text = text.slice(1);
+    }
+    this.trailingCR = text.endsWith("\r");
+
+    this.buffer += text;
+    const lines = this.buffer.split(/\r\n|\r|\n/);
+    this.buffer = lines.pop() || "";
+
+    const events: ServerSentEvent[] = [];
+    for (const line of lines) {
+      const event = this._processLine(line);
+      if (event) events.push(event);
+    }
+    return events;
+  }
+
+  /**
+   * Flush a final event left without its terminating blank line.
+   */
+  flush(): ServerSentEvent[] {
+    const events = this.buffer ? this.decode("\n") : [];
+    const event = this._processLine("");
+    return event ? [...events, event] : events;
+  }
+
+  private _processLine(line: string): ServerSentEvent | null {
+    if (line === "") {
+      // A blank line dispatches the pending event, if it has data
+      if (!this.data.length && this.event === null) return null;
+
+      const event: ServerSentEvent = {
+        event: this.event,
+        data: this.data.join("\n"),
+        id: this.lastEventId,
+      };
+      if (this.retry !== undefined) event.retry = this.retry;
+
+      this.event = null;
+      this.data = [];
+      this.retry = undefined;
+      return event;
+    }
+
+    if (line.startsWith(":")) return null;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    switch (field) {
+      case "event":
+        this.event = value;
+        break;
+      case "data":
+        this.data.push(value);
+        break;
+      case "id":
+        if (!value.includes("\0")) this.lastEventId = value;
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) this.retry = parseInt(value, 10);
+        break;
+    }
+    return null;
+  }
+}
+
+/**
+ * Read a response body as text, whether it is a Node stream, an async
+ * iterable or a WHATWG ReadableStream.
+ */
+async function* readBody(body: any): AsyncIterable<string> {
+  const decoder = new TextDecoder();
+
+  if (body[Symbol.asyncIterator]) {
+    for await (const chunk of body) {
+      yield typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+    }
+  } else if (body.getReader) {
+    const reader = body.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        yield decoder.decode(value, { stream: true });
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  } else {
+    throw new GravixLayerError(
+      "Streaming not supported with this fetch implementation",
+    );
+  }
+
+  const rest = decoder.decode();
+  if (rest) yield rest;
+}
+
+const bodyDoneCallbacks = new WeakMap<FetchResponse, () => void>();
+
+/**
+ * Run `callback` once `iterateEvents` stops reading the body of
+ * `response`, whether it ended, failed or was abandoned.
+ */
+export function onBodyDone(
+  response: FetchResponse,
+  callback: () => void,
+): void {
+  bodyDoneCallbacks.set(response, callback);
+}
+
+/**
+ * Decode every server-sent event in a streaming response.
+ */
+export async function* iterateEvents(
+  response: FetchResponse,
+): AsyncIterable<ServerSentEvent> {
+  try {
+    if (!response.body) {
+      throw new GravixLayerError("No response body for streaming");
+    }
+
+    const decoder = new SSEDecoder();
+    for await (const text of readBody(response.body)) {
+      yield* decoder.decode(text);
+    }
+    yield* decoder.flush();
+  } finally {
+    bodyDoneCallbacks.get(response)?.();
+    bodyDoneCallbacks.delete(response);
+  }
+}
+
+/**
+ * Decode a stream of JSON events, stopping at the `[DONE]` sentinel.
+ * `error` events, and data carrying an `error` object, are thrown as
+ * `GravixLayerError`. Other named events whose data is not JSON, such as
+ * `ping` keep-alives, are skipped.
+ */
+export async function* iterateJSONEvents(
+  response: FetchResponse,
+): AsyncIterable<any> {
+  for await (const sse of iterateEvents(response)) {
+    if (sse.data === "[DONE]") return;
+    if (!sse.data && sse.event !== "error") continue;
+
+    let data: any;
+    try {
+      data = JSON.parse(sse.data);
+    } catch {
+      if (sse.event === "error") {
+        throw new GravixLayerError(sse.data || "Stream error event");
+      }
+      if (sse.event !== null && sse.event !== "message") continue;
+      throw new GravixLayerError(
+        `Could not parse stream event as JSON: ${sse.data}`,
+        { body: sse.data },
+      );
+    }
+
+    if (sse.event === "error" || (data && data.error)) {
+      throw streamError(data);
+    }
+    yield data;
+  }
+}
+
+function streamError(data: any): GravixLayerError {
+  const errorData =
+    data && typeof data.error === "object" && data.error !== null
+      ? data.error
+      : data || {};
+  const message =
+    errorData.message ||
+    (typeof data?.error === "string" ? data.error : undefined) ||
+    "Stream error event";
+
+  return new GravixLayerError(message, {
+    status: typeof errorData.status === "number" ? errorData.status : undefined,
+    code: errorData.code !== undefined ? String(errorData.code) : undefined,
+    param: errorData.param,
+    body: data,
+  });
+}
@@ -4,11 +4,41 @@ export interface FunctionCall {
 }
 
 export interface ToolCall {
+  /** Position of the call in the message; present on streamed deltas. */
+  index?: number;
   id: string;
   type: string;
   function: FunctionCall;
 }
 
+export interface ChatCompletionContentPartText {
+  type: "text";
+  text: string;
+}
+
+export interface ChatCompletionContentPartImage {
+  type: "image_url";
+  image_url: {
+    /** An https URL or a base64 `data:` URL. */
+    url: string;
+    detail?: "auto" | "low" | "high";
+  };
+}
+
+export interface ChatCompletionContentPartInputAudio {
+  type: "input_audio";
+  input_audio: {
+    /** Base64-encoded audio. */
+    data: string;
+    format: "wav" | "mp3";
+  };
+}
+
+export type ChatCompletionContentPart =
+  | ChatCompletionContentPartText
+  | ChatCompletionContentPartImage
+  | ChatCompletionContentPartInputAudio;
+
 export interface ChatCompletionMessage {
   role: string;
   content?: string | null;
@@ -16,6 +46,17 @@ export interface ChatCompletionMessage {
   function_call?: Record<string, any>;
   tool_calls?: ToolCall[];
   tool_call_id?: string;
+  /** The model's refusal message, when it declined to answer. */
+  refusal?: string | null;
+}
+
+/**
+ * A message sent to the API. Unlike replies, its content may be an array
+ * of parts for multimodal user messages.
+ */
+export interface ChatCompletionMessageParam
+  extends Omit<ChatCompletionMessage, "content"> {
+  content?: string | ChatCompletionContentPart[] | null;
 }
 
 export interface ChatCompletionDelta {
@@ -23,6 +64,22 @@ export interface ChatCompletionDelta {
   content?: string | null;
   function_call?: Record<string, any>;
   tool_calls?: ToolCall[];
+  refusal?: string | null;
+}
+
+export interface ChatCompletionTopLogprob {
+  token: string;
+  logprob: number;
+  bytes: number[] | null;
+}
+
+export interface ChatCompletionTokenLogprob extends ChatCompletionTopLogprob {
+  top_logprobs: ChatCompletionTopLogprob[];
+}
+
+export interface ChatCompletionLogprobs {
+  content: ChatCompletionTokenLogprob[] | null;
+  refusal?: ChatCompletionTokenLogprob[] | null;
 }
 
 export interface ChatCompletionChoice {
@@ -30,14 +87,21 @@ export interface ChatCompletionChoice {
   message: ChatCompletionMessage;
   finish_reason?: string | null;
   delta?: ChatCompletionDelta;
+  logprobs?: ChatCompletionLogprobs | null;
 }
 
 export interface ChatCompletionUsage {
   prompt_tokens: number;
   completion_tokens: number;
   total_tokens: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+  completion_tokens_details?: { reasoning_tokens?: number };
 }
 
+/**
+ * Fields the API returns beyond those listed here are kept on the parsed
+ * objects as-is.
+ */
 export interface ChatCompletion {
   id: string;
   object: string;
@@ -45,18 +109,85 @@ export interface ChatCompletion {
   model: string;
   choices: ChatCompletionChoice[];
   usage?: ChatCompletionUsage;
+  system_fingerprint?: string;
 }
 
+export interface ChatCompletionTool {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    /** JSON Schema of the arguments object. */
+    parameters?: Record<string, any>;
+    strict?: boolean;
+  };
+}
+
+export interface ResponseFormatJSONSchema {
+  type: "json_schema";
+  json_schema: {
+    name: string;
+    description?: string;
+    schema?: Record<string, any>;
+    strict?: boolean;
+  };
+}
+
+export type ResponseFormat =
+  | { type: "text" }
+  | { type: "json_object" }
+  | ResponseFormatJSONSchema;
+
 export interface ChatCompletionCreateParams {
   model: string;
-  messages: ChatCompletionMessage[];
+  messages: ChatCompletionMessageParam[];
   temperature?: number | null;
   max_tokens?: number | null;
   top_p?: number | null;
   frequency_penalty?: number | null;
   presence_penalty?: number | null;
+  max_completion_tokens?: number | null;
   stop?: string | string[] | null;
   stream?: boolean;
-  tools?: Record<string, any>[] | null;
+  /** With `include_usage`, the last stream chunk carries token usage. */
+  stream_options?: { include_usage?: boolean } | null;
+  n?: number | null;
+  seed?: number | null;
+  logprobs?: boolean | null;
+  /** Number of alternatives (0-20) returned per token; needs `logprobs`. */
+  top_logprobs?: number | null;
+  /** Token ID to bias (-100 to 100). */
+  logit_bias?: Record<string, number> | null;
+  user?: string;
+  tools?: ChatCompletionTool[] | null;
   tool_choice?: string | Record<string, any> | null;
+  parallel_tool_calls?: boolean;
+  response_format?: ResponseFormat | null;
+  /** Extra fields merged into the request body, for parameters not listed here. */
+  extra_body?: Record<string, any>;
+}
+
+export interface ParsedFunctionCall<Args = any> extends FunctionCall {
+  /** Arguments validated against the tool's schema. */
+  parsed_arguments?: Args;
+}
+
+export interface ParsedToolCall<Args = any> extends ToolCall {
+  function: ParsedFunctionCall<Args>;
+}
+
+export interface ParsedChatCompletionMessage<T = any>
+  extends ChatCompletionMessage {
+  /** Content validated against `response_format`, when one was given. */
+  parsed: T | null;
+  tool_calls?: ParsedToolCall[];
+}
+
+export interface ParsedChatCompletionChoice<T = any>
+  extends ChatCompletionChoice {
+  message: ParsedChatCompletionMessage<T>;
+}
+
+export interface ParsedChatCompletion<T = any> extends ChatCompletion {
+  choices: ParsedChatCompletionChoice<T>[];
 }
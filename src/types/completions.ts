@@ -35,5 +35,6 @@ export interface CompletionCreateParams {
   frequency_penalty?: number | null;
   best_of?: number | null;
   logit_bias?: Record<string, number> | null;
+  seed?: number | null;
   user?: string | null;
 }
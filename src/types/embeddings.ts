@@ -1,6 +1,6 @@
-export interface EmbeddingObject {
+export interface EmbeddingObject<V = number[]> {
   object: string;
-  embedding: number[];
+  embedding: V;
   index: number;
 }
 
@@ -9,9 +9,9 @@ export interface EmbeddingUsage {
   total_tokens: number;
 }
 
-export interface EmbeddingResponse {
+export interface EmbeddingResponse<V = number[]> {
   object: string;
-  data: EmbeddingObject[];
+  data: EmbeddingObject<V>[];
   model: string;
   usage?: EmbeddingUsage;
 }
@@ -19,7 +19,34 @@ export interface EmbeddingResponse {
 export interface EmbeddingCreateParams {
   model: string;
   input: string | string[];
-  encoding_format?: string;
+  /** `"float"` (default) or `"base64"`; both come back decoded. */
+  encoding_format?: "float" | "base64" | (string & {});
   dimensions?: number | null;
   user?: string | null;
+  /** Return each embedding as a `Float32Array`. Not sent to the API. */
+  float32?: boolean;
+}
+
+export interface EmbeddingBatchProgress {
+  /** Inputs embedded so far. */
+  completed: number;
+  total: number;
+  completedBatches: number;
+  totalBatches: number;
+}
+
+export interface EmbeddingCreateManyOptions
+  extends Omit<EmbeddingCreateParams, "input" | "float32"> {
+  /** Inputs per request. Defaults to 100. */
+  batchSize?: number;
+  /** Requests in flight at once. Defaults to 4. */
+  concurrency?: number;
+  /** Estimated tokens per request, at about four characters per token. */
+  maxTokensPerBatch?: number;
+  /**
+   * Extra attempts for a batch that still fails after the client's own
+   * retries. Defaults to 2.
+   */
+  batchRetries?: number;
+  onProgress?: (progress: EmbeddingBatchProgress) => void;
 }
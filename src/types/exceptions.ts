@@ -1,41 +1,201 @@
+export interface GravixLayerErrorOptions {
+  status?: number;
+  headers?: Record<string, string>;
+  requestId?: string;
+  code?: string;
+  param?: string;
+  body?: any;
+  method?: string;
+  url?: string;
+}
+
 export class GravixLayerError extends Error {
-  constructor(message: string) {
+  /** HTTP status code, when the error came from an API response. */
+  status?: number;
+  headers: Record<string, string>;
+  requestId?: string;
+  /** Machine-readable `error.code` from the response body. */
+  code?: string;
+  /** Request parameter the error refers to (`error.param`). */
+  param?: string;
+  /** Parsed response body, or the raw text when it is not JSON. */
+  body?: any;
+  method?: string;
+  url?: string;
+
+  constructor(message: string, options: GravixLayerErrorOptions = {}) {
     super(message);
     this.name = "GravixLayerError";
+    this.status = options.status;
+    this.headers = options.headers || {};
+    this.requestId = options.requestId;
+    this.code = options.code;
+    this.param = options.param;
+    this.body = options.body;
+    this.method = options.method;
+    this.url = options.url;
   }
 }
 
 export class GravixLayerAuthenticationError extends GravixLayerError {
-  constructor(message: string) {
-    super(message);
+  constructor(message: string, options?: GravixLayerErrorOptions) {
+    super(message, options);
     this.name = "GravixLayerAuthenticationError";
   }
 }
 
 export class GravixLayerRateLimitError extends GravixLayerError {
-  constructor(message: string) {
-    super(message);
+  constructor(message: string, options?: GravixLayerErrorOptions) {
+    super(message, options);
     this.name = "GravixLayerRateLimitError";
   }
 }
 
 export class GravixLayerServerError extends GravixLayerError {
-  constructor(message: string) {
-    super(message);
+  constructor(message: string, options?: GravixLayerErrorOptions) {
+    super(message, options);
     this.name = "GravixLayerServerError";
   }
 }
 
 export class GravixLayerBadRequestError extends GravixLayerError {
-  constructor(message: string) {
-    super(message);
+  constructor(message: string, options?: GravixLayerErrorOptions) {
+    super(message, options);
     this.name = "GravixLayerBadRequestError";
   }
 }
 
+export class GravixLayerPermissionDeniedError extends GravixLayerBadRequestError {
+  constructor(message: string, options?: GravixLayerErrorOptions) {
+    super(message, options);
+    this.name = "GravixLayerPermissionDeniedError";
+  }
+}
+
+export class GravixLayerNotFoundError extends GravixLayerBadRequestError {
+  constructor(message: string, options?: GravixLayerErrorOptions) {
+    super(message, options);
+    this.name = "GravixLayerNotFoundError";
+  }
+}
+
+export class GravixLayerConflictError extends GravixLayerBadRequestError {
+  constructor(message: string, options?: GravixLayerErrorOptions) {
+    super(message, options);
+    this.name = "GravixLayerConflictError";
+  }
+}
+
+export class GravixLayerUnprocessableEntityError extends GravixLayerBadRequestError {
+  constructor(message: string, options?: GravixLayerErrorOptions) {
+    super(message, options);
+    this.name = "GravixLayerUnprocessableEntityError";
+  }
+}
+
 export class GravixLayerConnectionError extends GravixLayerError {
-  constructor(message: string) {
-    super(message);
+  constructor(message: string, options?: GravixLayerErrorOptions) {
+    super(message, options);
     this.name = "GravixLayerConnectionError";
   }
 }
+
+export class GravixLayerTimeoutError extends GravixLayerConnectionError {
+  constructor(message: string, options?: GravixLayerErrorOptions) {
+    super(message, options);
+    this.name = "GravixLayerTimeoutError";
+  }
+}
+
+export interface ValidationIssue {
+  /** Location of the problem inside the value, e.g. `["items", 0, "id"]`. */
+  path: (string | number)[];
+  message: string;
+}
+
+/**
+ * Model output that does not match the expected schema.
+ */
+export class GravixLayerValidationError extends GravixLayerError {
+  /** The raw text that failed validation. */
+  content: string;
+  issues: ValidationIssue[];
+
+  constructor(
+    message: string,
+    content: string,
+    issues: ValidationIssue[] = [],
+    options?: GravixLayerErrorOptions,
+  ) {
+    super(message, options);
+    this.name = "GravixLayerValidationError";
+    this.content = content;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Build the error matching an HTTP status from a failed response.
+ */
+export function makeAPIError(
+  status: number,
+  bodyText: string,
+  options: Omit<GravixLayerErrorOptions, "status" | "body"> = {},
+): GravixLayerError {
+  let body: any = bodyText;
+  try {
+    body = bodyText ? JSON.parse(bodyText) : undefined;
+  } catch {
+    // Keep the raw text
+  }
+
+  // Accept `{ error: { message, code, param } }`, `{ error: "..." }`,
+  // `{ message }` and `{ detail }` payloads
+  const errorData =
+    body && typeof body === "object"
+      ? typeof body.error === "object" && body.error !== null
+        ? body.error
+        : body
+      : {};
+  const rawMessage =
+    errorData.message ||
+    (typeof body?.error === "string" ? body.error : undefined) ||
+    errorData.detail;
+  const message =
+    typeof rawMessage === "string" && rawMessage
+      ? rawMessage
+      : bodyText || `HTTP ${status}`;
+
+  const errorOptions: GravixLayerErrorOptions = {
+    ...options,
+    status,
+    body,
+    code: errorData.code !== undefined ? String(errorData.code) : undefined,
+    param: errorData.param,
+  };
+
+  switch (status) {
+    case 400:
+      return new GravixLayerBadRequestError(message, errorOptions);
+    case 401:
+      return new GravixLayerAuthenticationError(message, errorOptions);
+    case 403:
+      return new GravixLayerPermissionDeniedError(message, errorOptions);
+    case 404:
+      return new GravixLayerNotFoundError(message, errorOptions);
+    case 409:
+      return new GravixLayerConflictError(message, errorOptions);
+    case 422:
+      return new GravixLayerUnprocessableEntityError(message, errorOptions);
+    case 429:
+      return new GravixLayerRateLimitError(message, errorOptions);
+  }
+
+  if (status >= 400 && status < 500) {
+    return new GravixLayerBadRequestError(message, errorOptions);
+  }
+  if (status >= 500 && status < 600) {
+    return new GravixLayerServerError(message, errorOptions);
+  }
+  return new GravixLayerError(message, errorOptions);
+}
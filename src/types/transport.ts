@@ -0,0 +1,129 @@
+/**
+ * Transport types for GravixLayer SDK
+ */
+
+export interface FetchRequestInit {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: any;
+  signal?: AbortSignal;
+  [key: string]: any;
+}
+
+/**
+ * Minimal response shape the SDK relies on. Satisfied by node-fetch,
+ * undici and the global `fetch` in Node 18+, Bun, Deno and edge runtimes.
+ */
+export interface FetchResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: {
+    get(name: string): string | null;
+    forEach?(callback: (value: string, key: string) => void): void;
+  };
+  body: any;
+  json(): Promise<any>;
+  text(): Promise<string>;
+  arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+export type Fetch = (
+  url: string,
+  init?: FetchRequestInit,
+) => Promise<FetchResponse>;
+
+/**
+ * Per-call overrides accepted by every resource method.
+ */
+export interface RequestOptions {
+  /** Cancels the request, including any pending retries. */
+  signal?: AbortSignal;
+  /** Deadline in milliseconds, applied to each attempt separately. */
+  timeout?: number;
+  maxRetries?: number;
+  headers?: Record<string, string>;
+  /** Overrides the automatically generated `Idempotency-Key` header. */
+  idempotencyKey?: string;
+  /** Labels the call's token usage is also counted under in `client.usage`. */
+  tags?: string[];
+  /** Set to false to bypass the client's response cache for this call. */
+  cache?: boolean;
+}
+
+export interface RetryContext {
+  method: string;
+  url: string;
+  /** Zero-based number of the attempt that just failed. */
+  attempt: number;
+  /** Response status, when the server answered. */
+  status?: number;
+  /** Network or timeout error, when it did not. */
+  error?: unknown;
+}
+
+export interface RetryPolicy {
+  /** Base delay in milliseconds before retrying after `attempt`. Defaults to `2^attempt` seconds. */
+  backoff?: (attempt: number) => number;
+  /** Fraction of the delay randomized away, from 0 (none) to 1 (full jitter). Defaults to 0.25. */
+  jitter?: number;
+  /** Upper bound for any delay, including `Retry-After`. Defaults to 60000. */
+  maxDelay?: number;
+  /** Statuses worth retrying. Defaults to 429, 502, 503 and 504. */
+  retryableStatuses?: number[];
+  /** Final say on whether a failed attempt is retried, e.g. per method. */
+  shouldRetry?: (context: RetryContext) => boolean;
+  /** Send an `Idempotency-Key` header with non-GET requests. Defaults to true. */
+  idempotencyKeys?: boolean;
+}
+
+/**
+ * A single HTTP attempt as seen by middleware. `onRequest` may change
+ * `url`, `headers` and `body` in place before the request is sent.
+ */
+export interface MiddlewareRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  /** Request payload before JSON serialization (or the FormData instance). */
+  body?: any;
+  /** Zero-based retry attempt. */
+  attempt: number;
+}
+
+export interface MiddlewareResponse {
+  status: number;
+  headers: Record<string, string>;
+  /** Time from sending this attempt to receiving its response headers. */
+  durationMs: number;
+}
+
+export interface Middleware {
+  /** Called before every attempt, including retries. */
+  onRequest?: (request: MiddlewareRequest) => void | Promise<void>;
+  /** Called for every HTTP response, whatever its status. */
+  onResponse?: (
+    request: MiddlewareRequest,
+    response: MiddlewareResponse,
+  ) => void | Promise<void>;
+  /** Called once when the request finally fails, with the error about to be thrown. */
+  onError?: (
+    request: MiddlewareRequest,
+    error: Error,
+    durationMs: number,
+  ) => void | Promise<void>;
+}
+
+/**
+ * Base URL of each GravixLayer service.
+ */
+export interface ServiceEndpoints {
+  inference: string;
+  agents: string;
+  deployments: string;
+  files: string;
+  vectors: string;
+  accelerators: string;
+}
+
+export type ServiceName = keyof ServiceEndpoints;
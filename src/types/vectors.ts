@@ -66,6 +66,9 @@ export interface BatchUpsertResponse {
   upserted_count: number;
   failed_count: number;
   errors: string[];
+  /** IDs written; the API returns these with `count`. */
+  ids?: string[];
+  count?: number;
   usage?: Record<string, number>;
 }
 
@@ -77,6 +80,161 @@ export interface VectorDictResponse {
   vectors: Record<string, Vector>;
 }
 
+/**
+ * One row of an import or export file. Rows carry either an `embedding`
+ * or a `text` to embed with `model`.
+ */
+export interface VectorRecord {
+  id?: string;
+  embedding?: number[];
+  text?: string;
+  model?: string;
+  metadata?: Record<string, any>;
+  delete_protection?: boolean;
+}
+
+export type VectorFileFormat = "jsonl" | "csv";
+
+export interface VectorImportProgress {
+  /** Rows read so far, including rows skipped by the checkpoint. */
+  rows: number;
+  upserted: number;
+  failed: number;
+}
+
+export interface VectorImportRowError {
+  /** 1-based position of the row in the source, when known. */
+  row?: number;
+  id?: string;
+  error: string;
+}
+
+export interface VectorImportOptions {
+  /** Defaults to the file extension: `.csv` or JSONL otherwise. */
+  format?: VectorFileFormat;
+  /** Embedding model for text rows that do not name one. */
+  model?: string;
+  /** Rows per request. Defaults to 100. */
+  batchSize?: number;
+  /** Serialized size limit per request. Defaults to 2 MB. */
+  maxBatchBytes?: number;
+  /** Requests in flight at once. Defaults to 2. */
+  concurrency?: number;
+  /**
+   * File recording how many rows are done. An interrupted import that is
+   * run again with the same checkpoint skips those rows; the file is
+   * removed once the import completes.
+   */
+  checkpoint?: string;
+  onProgress?: (progress: VectorImportProgress) => void;
+}
+
+export interface VectorImportResult extends VectorImportProgress {
+  /** Rows skipped because the checkpoint marked them done. */
+  skipped: number;
+  errors: VectorImportRowError[];
+}
+
+export interface VectorExportOptions {
+  /** Defaults to the file extension: `.csv` or JSONL otherwise. */
+  format?: VectorFileFormat;
+  /** Vectors fetched per request. Defaults to 100. */
+  batchSize?: number;
+  onProgress?: (exported: number, total: number) => void;
+}
+
+export interface HybridRerankOptions {
+  /** Chat model that scores each candidate against the query. */
+  model: string;
+  /** How many of the fused hits to rescore. Defaults to 20. */
+  topN?: number;
+  /** Extra guidance for the model, e.g. what counts as relevant. */
+  instructions?: string;
+}
+
+export interface HybridSearchOptions {
+  /** Hits to return. Defaults to 10. */
+  topK?: number;
+  filter?: MetadataFilter;
+  /** Metadata field holding the text scored by BM25. Defaults to `content`. */
+  textField?: string;
+  /**
+   * `rrf` (the default) fuses by rank; `weighted` sums min-max normalized
+   * scores using `denseWeight`, after flipping the distances of a
+   * `euclidean` index so that higher is closer.
+   */
+  fusion?: "rrf" | "weighted";
+  /** Weight of the dense score in `weighted` fusion. Defaults to 0.5. */
+  denseWeight?: number;
+  /** Rank constant of reciprocal rank fusion. Defaults to 60. */
+  rrfK?: number;
+  /** Hits taken from each of the dense and keyword searches. Defaults to 50. */
+  candidates?: number;
+  rerank?: HybridRerankOptions;
+}
+
+export interface HybridSearchHit extends VectorSearchHit {
+  /** Score of the dense search, when it found this hit. */
+  dense_score?: number;
+  /** BM25 score, when the hit matched a query term. */
+  keyword_score?: number;
+  /** Score from 0 to 10 given by the rerank model. */
+  rerank_score?: number;
+}
+
+export interface HybridSearchResponse {
+  /** Ordered by `rerank_score` when reranked, else by the fused `score`. */
+  hits: HybridSearchHit[];
+  usage: Record<string, number>;
+}
+
+export interface VectorMigrationOptions {
+  /** ID of the index to copy from. */
+  from: string;
+  /** The index to create and copy into. */
+  to: CreateIndexRequest;
+  /**
+   * Embedding model to re-embed with. The text comes from the record's
+   * `text`, or else its `textField` metadata. Without a model the
+   * embeddings are copied unchanged, so the dimensions must match.
+   */
+  reembedWith?: string;
+  /** Metadata field holding the text to re-embed. Defaults to `content`. */
+  textField?: string;
+  /**
+   * Rewrite each vector before it is written to the new index, or return
+   * null to leave it out.
+   */
+  transform?: (
+    vector: Vector,
+  ) => VectorRecord | null | Promise<VectorRecord | null>;
+  /** Vectors per request. Defaults to 100. */
+  batchSize?: number;
+  /** Requests in flight at once. Defaults to 2. */
+  concurrency?: number;
+  /**
+   * Delete the source index once every vector is copied and the counts
+   * match. A source index or vector with `delete_protection` is kept.
+   */
+  deleteSource?: boolean;
+  onProgress?: (progress: VectorImportProgress) => void;
+}
+
+export interface VectorMigrationResult {
+  /** The new index. */
+  index: VectorIndex;
+  /** Vectors read from the source index. */
+  total: number;
+  migrated: number;
+  /** Vectors `transform` left out. */
+  skipped: number;
+  failed: number;
+  errors: VectorImportRowError[];
+  /** Whether the new index holds exactly the migrated vectors. */
+  verified: boolean;
+  sourceDeleted: boolean;
+}
+
 // Request types
 export interface CreateIndexRequest {
   name: string;
@@ -118,10 +276,35 @@ export interface BatchUpsertTextRequest {
   vectors: UpsertTextVectorRequest[];
 }
 
+/** Metadata value a filter can compare against. Dates are sent as ISO strings. */
+export type FilterValue = string | number | boolean | Date;
+
+export interface FieldOperators {
+  $eq?: FilterValue;
+  $ne?: FilterValue;
+  $in?: FilterValue[];
+  $nin?: FilterValue[];
+  $gt?: number | string | Date;
+  $gte?: number | string | Date;
+  $lt?: number | string | Date;
+  $lte?: number | string | Date;
+  $exists?: boolean;
+}
+
+/**
+ * Metadata filter for vector search. A bare value is shorthand for `$eq`;
+ * several fields in one object must all match.
+ */
+export interface MetadataFilter {
+  $and?: MetadataFilter[];
+  $or?: MetadataFilter[];
+  [field: string]: FilterValue | FieldOperators | MetadataFilter[] | undefined;
+}
+
 export interface VectorSearchRequest {
   vector: number[];
   top_k: number;
-  filter?: Record<string, any>;
+  filter?: MetadataFilter;
   include_metadata?: boolean;
   include_values?: boolean;
 }
@@ -130,7 +313,7 @@ export interface TextSearchRequest {
   query: string;
   model: string;
   top_k: number;
-  filter?: Record<string, any>;
+  filter?: MetadataFilter;
   include_metadata?: boolean;
   include_values?: boolean;
 }
@@ -0,0 +1,221 @@
+/**
+ * Token usage and cost accounting for GravixLayer SDK
+ */
+import { Logger } from "./logger";
+
+/**
+ * Prices in a currency of your choice per million tokens.
+ */
+export interface ModelPrice {
+  prompt: number;
+  /** Defaults to 0, e.g. for embedding models. */
+  completion?: number;
+}
+
+/** Prices per model name. */
+export type PriceTable = Record<string, ModelPrice>;
+
+export type UsageSource = "chat" | "completions" | "embeddings" | "vectors";
+
+/**
+ * Token usage of a single API call.
+ */
+export interface UsageEvent {
+  source: UsageSource;
+  model: string;
+  user?: string;
+  tags: string[];
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Estimated spend; undefined when the price table lacks the model. */
+  cost?: number;
+  timestamp: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Spend of the requests whose model has a price. */
+  cost: number;
+}
+
+export interface UsageSnapshot {
+  total: UsageTotals;
+  byModel: Record<string, UsageTotals>;
+  byUser: Record<string, UsageTotals>;
+  byTag: Record<string, UsageTotals>;
+}
+
+export interface UsageTrackerOptions {
+  prices?: PriceTable;
+  /** Called after every call that reported usage. */
+  onUsage?: (event: UsageEvent) => void;
+}
+
+/** Usage as reported by chat, completions, embeddings and text search. */
+interface ReportedUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+  };
+}
+
+function addTo(totals: UsageTotals, event: UsageEvent): void {
+  totals.requests += 1;
+  totals.promptTokens += event.promptTokens;
+  totals.completionTokens += event.completionTokens;
+  totals.totalTokens += event.totalTokens;
+  totals.cost += event.cost || 0;
+}
+
+function copyGroup(
+  group: Map<string, UsageTotals>,
+): Record<string, UsageTotals> {
+  return Object.fromEntries(
+    [...group].map(([key, totals]) => [key, { ...totals }]),
+  );
+}
+
+/**
+ * Sums the token usage of every call made through a client, per model,
+ * per `user` and per request tag.
+ */
+export class UsageTracker {
+  private prices: PriceTable;
+  private listeners: ((event: UsageEvent) => void)[] = [];
+  private total = emptyTotals();
+  private byModel = new Map<string, UsageTotals>();
+  private byUser = new Map<string, UsageTotals>();
+  private byTag = new Map<string, UsageTotals>();
+
+  constructor(
+    options: UsageTrackerOptions = {},
+    private logger?: Logger,
+  ) {
+    this.prices = { ...options.prices };
+    if (options.onUsage) this.listeners.push(options.onUsage);
+  }
+
+  /**
+   * Add or replace model prices. Only later calls are priced with them.
+   */
+  setPrices(prices: PriceTable): void {
+    Object.assign(this.prices, prices);
+  }
+
+  /**
+   * Estimated spend for the given token counts, or undefined when `model`
+   * has no price.
+   */
+  estimateCost(
+    model: string,
+    promptTokens: number,
+    completionTokens: number = 0,
+  ): number | undefined {
+    const price = this.prices[model];
+    if (!price) return undefined;
+    return (
+      (promptTokens * price.prompt +
+        completionTokens * (price.completion || 0)) /
+      1_000_000
+    );
+  }
+
+  /**
+   * Register a listener for every recorded call; returns a function that
+   * removes it again.
+   */
+  onUsage(listener: (event: UsageEvent) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((other) => other !== listener);
+    };
+  }
+
+  /**
+   * Account for the usage a response reported. Calls without usage are
+   * ignored.
+   */
+  record(
+    source: UsageSource,
+    model: string,
+    usage: ReportedUsage | undefined,
+    context: { user?: string | null; tags?: string[] } = {},
+  ): UsageEvent | undefined {
+    if (!usage) return undefined;
+
+    const promptTokens = usage.prompt_tokens || 0;
+    const completionTokens = usage.completion_tokens || 0;
+    const event: UsageEvent = {
+      source,
+      model,
+      user: context.user || undefined,
+      tags: [...new Set(context.tags || [])],
+      promptTokens,
+      completionTokens,
+      totalTokens: usage.total_tokens || promptTokens + completionTokens,
+      cost: this.estimateCost(model, promptTokens, completionTokens),
+      timestamp: Date.now(),
+    };
+
+    addTo(this.total, event);
+    addTo(this._group(this.byModel, model), event);
+    if (event.user) addTo(this._group(this.byUser, event.user), event);
+    for (const tag of event.tags) addTo(this._group(this.byTag, tag), event);
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        // A failing listener must not fail the call that was already made
+        this.logger?.warn("Usage listener failed", error);
+      }
+    }
+    return event;
+  }
+
+  /**
+   * Copy of the totals accumulated so far.
+   */
+  snapshot(): UsageSnapshot {
+    return {
+      total: { ...this.total },
+      byModel: copyGroup(this.byModel),
+      byUser: copyGroup(this.byUser),
+      byTag: copyGroup(this.byTag),
+    };
+  }
+
+  /**
+   * Start counting from zero and return the totals up to now.
+   */
+  reset(): UsageSnapshot {
+    const snapshot = this.snapshot();
+    this.total = emptyTotals();
+    this.byModel.clear();
+    this.byUser.clear();
+    this.byTag.clear();
+    return snapshot;
+  }
+
+  private _group(group: Map<string, UsageTotals>, key: string): UsageTotals {
+    let totals = group.get(key);
+    if (!totals) {
+      totals = emptyTotals();
+      group.set(key, totals);
+    }
+    return totals;
+  }
+}